@@ -0,0 +1,82 @@
+// Exercises the push relay offline: registers a fake browser whose push endpoint is the relay's
+// mock endpoint, uploads a reminder due in a few seconds, then waits for it and decrypts it.
+//
+//   npm run push-relay            (in one terminal)
+//   node server/mock-client.mjs   (in another)
+import crypto from 'node:crypto';
+
+const RELAY_URL = process.env.RELAY_URL ?? 'http://localhost:8787';
+const TIMEOUT_MS = 60 * 1000;
+
+const hkdf = (salt, ikm, info, length) => Buffer.from(crypto.hkdfSync('sha256', ikm, salt, info, length));
+
+// What a browser does with an aes128gcm push message
+function decryptPayload(body, clientKeys, authSecret) {
+  const salt = body.subarray(0, 16);
+  const keyLength = body.readUInt8(20);
+  const serverPublicKey = body.subarray(21, 21 + keyLength);
+  const ciphertext = body.subarray(21 + keyLength);
+
+  const sharedSecret = clientKeys.computeSecret(serverPublicKey);
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), clientKeys.getPublicKey(), serverPublicKey]);
+  const ikm = hkdf(authSecret, sharedSecret, keyInfo, 32);
+  const contentKey = hkdf(salt, ikm, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(salt, ikm, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  const decipher = crypto.createDecipheriv('aes-128-gcm', contentKey, nonce);
+  decipher.setAuthTag(ciphertext.subarray(-16));
+  const padded = Buffer.concat([decipher.update(ciphertext.subarray(0, -16)), decipher.final()]);
+  return padded.subarray(0, padded.lastIndexOf(2)).toString();
+}
+
+const deviceId = `mock-${Date.now()}`;
+const clientKeys = crypto.createECDH('prime256v1');
+clientKeys.generateKeys();
+const authSecret = crypto.randomBytes(16);
+
+const subscription = {
+  endpoint: `${RELAY_URL}/mock-push/${deviceId}`,
+  keys: {
+    p256dh: clientKeys.getPublicKey().toString('base64url'),
+    auth: authSecret.toString('base64url')
+  }
+};
+
+const reminder = {
+  key: `mock|${new Date().toISOString().slice(0, 10)}|now`,
+  doses: [{
+    medicineId: 'mock',
+    date: new Date().toISOString().slice(0, 10),
+    time: 'now',
+    medicineName: 'Test Medicine',
+    dosage: '1 tablet',
+    localTime: 'now'
+  }],
+  title: 'Time for Test Medicine',
+  body: '1 tablet',
+  at: Date.now() + 5000
+};
+
+const response = await fetch(`${RELAY_URL}/devices/${deviceId}`, {
+  method: 'PUT',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify({ subscription, reminders: [reminder] })
+});
+console.log(`Registered ${deviceId}: ${response.status}`);
+
+const started = Date.now();
+while (Date.now() - started < TIMEOUT_MS) {
+  await new Promise(resolve => setTimeout(resolve, 2000));
+  const deliveries = await (await fetch(`${RELAY_URL}/mock-push/${deviceId}`)).json();
+  if (deliveries.length > 0) {
+    const [delivery] = deliveries;
+    console.log('Authorization:', delivery.headers.authorization.slice(0, 40) + '…');
+    console.log('Payload:', decryptPayload(Buffer.from(delivery.body, 'base64url'), clientKeys, authSecret));
+    await fetch(`${RELAY_URL}/devices/${deviceId}`, { method: 'DELETE' });
+    process.exit(0);
+  }
+}
+
+console.error('No push arrived within a minute');
+await fetch(`${RELAY_URL}/devices/${deviceId}`, { method: 'DELETE' });
+process.exit(1);
@@ -0,0 +1,170 @@
+// Optional push relay: stores each device's upcoming reminders and sends them as Web Push
+// messages at dose time, so reminders arrive even when the browser has throttled or closed the app.
+//
+//   npm run push-relay
+//
+// Environment: PORT (default 8787), ALLOWED_ORIGIN (default *), VAPID_SUBJECT, DATA_DIR (default server/.data)
+// The app finds the relay through VITE_PUSH_RELAY_URL, e.g. VITE_PUSH_RELAY_URL=http://localhost:8787 npm run dev
+//
+// For offline testing, /mock-push/:id accepts pushes like a push service and keeps them for inspection;
+// see mock-client.mjs.
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { generateVapidKeys, sendPush } from './webPush.mjs';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN ?? '*';
+const DATA_DIR = process.env.DATA_DIR ?? path.join(path.dirname(fileURLToPath(import.meta.url)), '.data');
+const CHECK_INTERVAL_MS = 15 * 1000;
+const LATE_LIMIT_MS = 60 * 60 * 1000; // reminders later than this are dropped, not sent
+
+fs.mkdirSync(DATA_DIR, { recursive: true });
+
+const readJson = (file, fallback) => {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(DATA_DIR, file), 'utf8'));
+  } catch {
+    return fallback;
+  }
+};
+
+const writeJson = (file, data) => fs.writeFileSync(path.join(DATA_DIR, file), JSON.stringify(data, null, 2));
+
+// Keys are created on first run and reused, since every subscription is tied to them
+let vapid = readJson('vapid.json', null);
+if (!vapid) {
+  vapid = generateVapidKeys();
+  writeJson('vapid.json', vapid);
+}
+vapid.subject = process.env.VAPID_SUBJECT ?? 'mailto:pillreminder@example.com';
+
+// { [deviceId]: { subscription, reminders: [{ key, at, title, body, ... }], sent: [key] } }
+const devices = readJson('devices.json', {});
+const saveDevices = () => writeJson('devices.json', devices);
+
+const mockDeliveries = {};
+
+async function sendDueReminders() {
+  const now = Date.now();
+  let changed = false;
+
+  for (const [id, device] of Object.entries(devices)) {
+    for (const reminder of device.reminders) {
+      if (reminder.at > now || device.sent.includes(reminder.key)) continue;
+
+      device.sent.push(reminder.key);
+      changed = true;
+      if (now - reminder.at > LATE_LIMIT_MS) continue;
+
+      try {
+        const status = await sendPush(device.subscription, { type: 'reminder', reminder }, vapid);
+        console.log(`Sent ${reminder.key} to ${id}: ${status}`);
+        if (status === 404 || status === 410) {
+          delete devices[id];
+          break;
+        }
+      } catch (error) {
+        console.error(`Failed to send ${reminder.key} to ${id}:`, error.message);
+      }
+    }
+
+    if (devices[id]) {
+      // Forget reminders that are long past
+      device.reminders = device.reminders.filter(reminder => now - reminder.at <= LATE_LIMIT_MS);
+      device.sent = device.sent.filter(key => device.reminders.some(reminder => reminder.key === key));
+    }
+  }
+
+  if (changed) saveDevices();
+}
+
+const readBody = (request) => new Promise((resolve, reject) => {
+  const chunks = [];
+  request.on('data', chunk => chunks.push(chunk));
+  request.on('end', () => resolve(Buffer.concat(chunks)));
+  request.on('error', reject);
+});
+
+const send = (response, status, data) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(data === undefined ? '' : JSON.stringify(data));
+};
+
+async function handleRequest(request, response) {
+  response.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+  response.setHeader('Access-Control-Allow-Methods', 'GET, PUT, POST, DELETE, OPTIONS');
+  response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (request.method === 'OPTIONS') return send(response, 204);
+
+  const { pathname } = new URL(request.url, `http://${request.headers.host}`);
+  const [, resource, id, subresource] = pathname.split('/');
+
+  if (resource === 'vapid-public-key' && request.method === 'GET') {
+    return send(response, 200, { publicKey: vapid.publicKey });
+  }
+
+  // A reminder snoozed from its notification, sent by the service worker; it replaces the one with the same key
+  if (resource === 'devices' && id && subresource === 'reminders' && request.method === 'POST') {
+    const device = devices[id];
+    if (!device) return send(response, 404, { error: 'Unknown device' });
+    const { reminder } = JSON.parse((await readBody(request)).toString());
+    if (!reminder?.key || typeof reminder.at !== 'number') {
+      return send(response, 400, { error: 'reminder with key and at is required' });
+    }
+    device.reminders = [...device.reminders.filter(existing => existing.key !== reminder.key), reminder];
+    device.sent = device.sent.filter(key => key !== reminder.key);
+    saveDevices();
+    return send(response, 201);
+  }
+
+  if (resource === 'devices' && id && !subresource) {
+    if (request.method === 'PUT') {
+      const { subscription, reminders } = JSON.parse((await readBody(request)).toString());
+      if (!subscription?.endpoint || !subscription.keys || !Array.isArray(reminders)) {
+        return send(response, 400, { error: 'subscription and reminders are required' });
+      }
+      const sent = (devices[id]?.sent ?? []).filter(key => reminders.some(reminder => reminder.key === key));
+      devices[id] = { subscription, reminders, sent };
+      saveDevices();
+      return send(response, 200, { reminders: reminders.length });
+    }
+    if (request.method === 'DELETE') {
+      delete devices[id];
+      saveDevices();
+      return send(response, 204);
+    }
+  }
+
+  if (resource === 'mock-push' && id) {
+    if (request.method === 'POST') {
+      const body = await readBody(request);
+      mockDeliveries[id] = [...(mockDeliveries[id] ?? []), {
+        receivedAt: new Date().toISOString(),
+        headers: request.headers,
+        body: body.toString('base64url')
+      }];
+      return send(response, 201);
+    }
+    if (request.method === 'GET') {
+      return send(response, 200, mockDeliveries[id] ?? []);
+    }
+  }
+
+  return send(response, 404, { error: 'Not found' });
+}
+
+http.createServer((request, response) => {
+  handleRequest(request, response).catch(error => {
+    console.error('Request failed:', error);
+    send(response, 500, { error: 'Internal error' });
+  });
+}).listen(PORT, () => {
+  console.log(`Push relay listening on http://localhost:${PORT}`);
+});
+
+setInterval(() => {
+  sendDueReminders().catch(error => console.error('Reminder check failed:', error));
+}, CHECK_INTERVAL_MS);
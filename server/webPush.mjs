@@ -0,0 +1,89 @@
+// Minimal Web Push sender: VAPID authentication (RFC 8292) and aes128gcm payload encryption (RFC 8291),
+// using only node:crypto so the relay runs without installing anything.
+import crypto from 'node:crypto';
+
+const RECORD_SIZE = 4096;
+
+const base64url = (buffer) => Buffer.from(buffer).toString('base64url');
+
+export function generateVapidKeys() {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    publicKey: base64url(ecdh.getPublicKey()),
+    privateKey: base64url(ecdh.getPrivateKey())
+  };
+}
+
+const toPrivateKeyObject = (keys) => {
+  const publicKey = Buffer.from(keys.publicKey, 'base64url');
+  return crypto.createPrivateKey({
+    format: 'jwk',
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: keys.privateKey,
+      x: base64url(publicKey.subarray(1, 33)),
+      y: base64url(publicKey.subarray(33, 65))
+    }
+  });
+};
+
+// Authorization header value for a push service origin
+function createVapidAuthorization(endpoint, vapid) {
+  const header = base64url(JSON.stringify({ typ: 'JWT', alg: 'ES256' }));
+  const claims = base64url(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + 12 * 60 * 60,
+    sub: vapid.subject
+  }));
+  const signature = crypto.sign('sha256', Buffer.from(`${header}.${claims}`), {
+    key: toPrivateKeyObject(vapid),
+    dsaEncoding: 'ieee-p1363'
+  });
+  return `vapid t=${header}.${claims}.${base64url(signature)}, k=${vapid.publicKey}`;
+}
+
+const hkdf = (salt, ikm, info, length) => Buffer.from(crypto.hkdfSync('sha256', ikm, salt, info, length));
+
+export function encryptPayload(subscription, payload) {
+  const clientPublicKey = Buffer.from(subscription.keys.p256dh, 'base64url');
+  const authSecret = Buffer.from(subscription.keys.auth, 'base64url');
+
+  const serverKeys = crypto.createECDH('prime256v1');
+  const serverPublicKey = serverKeys.generateKeys();
+  const sharedSecret = serverKeys.computeSecret(clientPublicKey);
+  const salt = crypto.randomBytes(16);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), clientPublicKey, serverPublicKey]);
+  const ikm = hkdf(authSecret, sharedSecret, keyInfo, 32);
+  const contentKey = hkdf(salt, ikm, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(salt, ikm, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  // A single record: the payload followed by the last-record delimiter
+  const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+  const encrypted = Buffer.concat([cipher.update(Buffer.from(payload)), cipher.update(Buffer.from([2])), cipher.final(), cipher.getAuthTag()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+
+  return Buffer.concat([header, serverPublicKey, encrypted]);
+}
+
+// Resolves with the push service's status code; 404 and 410 mean the subscription is gone
+export async function sendPush(subscription, payload, vapid, ttlSeconds = 60 * 60) {
+  const response = await fetch(subscription.endpoint, {
+    method: 'POST',
+    headers: {
+      Authorization: createVapidAuthorization(subscription.endpoint, vapid),
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type': 'application/octet-stream',
+      TTL: String(ttlSeconds),
+      Urgency: 'high'
+    },
+    body: encryptPayload(subscription, JSON.stringify(payload))
+  });
+  return response.status;
+}
@@ -6,6 +6,15 @@ import { PWAInstaller } from './components/PWAInstaller';
 import { MedicineForm } from './components/MedicineForm';
 import { MedicineCard } from './components/MedicineCard';
 import { NotificationAlert } from './components/NotificationAlert';
+import { CompletedCourses } from './components/CompletedCourses';
+import { RoutineSettings } from './components/RoutineSettings';
+import { NotificationSettings } from './components/NotificationSettings';
+import { TravelModeSettings } from './components/TravelModeSettings';
+import { CaregiverSettings } from './components/CaregiverSettings';
+import { SoundSettings } from './components/SoundSettings';
+import { VoiceReminderSettings } from './components/VoiceReminderSettings';
+import { UpcomingDoses } from './components/UpcomingDoses';
+import { ScheduleCheck } from './components/ScheduleCheck';
 import { Button } from './components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './components/ui/card';
 import { Badge } from './components/ui/badge';
@@ -14,26 +23,32 @@ import { Pill, Calendar, Clock, TrendingUp, ArrowLeft } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
 import { useSoundManager } from './components/SoundManager';
 import { motion, AnimatePresence } from 'motion/react';
-
-interface Medicine {
-  id: string;
-  name: string;
-  dosage: string;
-  frequency: string;
-  times: string[];
-  startDate: string;
-  endDate?: string;
-  notes?: string;
-  color: string;
-}
-
-interface MedicineLog {
-  medicineId: string;
-  medicineName: string;
-  time: string;
-  takenAt: string;
-  date: string;
-}
+import type { AlertSettings, Medicine, MedicineLog, RoutineProfile, TravelSettings } from './types/medicine';
+import {
+  getCourseStatus,
+  getDosageOn,
+  parseDateKey,
+  toDateKey
+} from './utils/doseSchedule';
+import { countPendingDoses, findLogEntry, findNewlyMissedDoses, normalizeLegacyLog } from './utils/doseTiming';
+import { getReminderKey, recordBackgroundAlert, updateReminderState } from './utils/reminderState';
+import { saveRoutine, storedRoutine } from './utils/routine';
+import { saveTravelSettings, storedTravelSettings, syncTravelZone } from './utils/travel';
+import { saveAlertSettings, storedAlertSettings } from './utils/alertSettings';
+import { useStoredValue } from './utils/storedValue';
+import { recordFiredReminders, recordReminderResponse } from './utils/reminderHistory';
+import { updateAppBadge } from './utils/appBadge';
+import { getUpcomingDoses } from './utils/upcoming';
+import {
+  canNotify,
+  onNotificationAction,
+  registerServiceWorker,
+  scheduleSystemReminders,
+  takeFiredReminders,
+  takePendingActions
+} from './utils/systemNotifications';
+import { isPushRelayConfigured, syncPushSchedule } from './utils/pushRelay';
+import type { TimetableChange } from './utils/scheduleConflicts';
 
 export default function App() {
   const [medicines, setMedicines] = useState<Medicine[]>([]);
@@ -41,6 +56,10 @@ export default function App() {
   const [medicineLog, setMedicineLog] = useState<MedicineLog[]>([]);
   const [activeTab, setActiveTab] = useState<'home' | 'upcoming' | 'history' | 'settings'>('home');
   const [isMobile, setIsMobile] = useState(false);
+  const routine = useStoredValue(storedRoutine);
+  const travelSettings = useStoredValue(storedTravelSettings);
+  const alertSettings = useStoredValue(storedAlertSettings);
+  const [hasLoaded, setHasLoaded] = useState(false);
   const { playSuccessSound } = useSoundManager();
 
   useEffect(() => {
@@ -70,7 +89,7 @@ export default function App() {
     if (!manifest) {
       const link = document.createElement('link');
       link.rel = 'manifest';
-      link.href = '/manifest.json';
+      link.href = `${import.meta.env.BASE_URL}manifest.json`;
       document.head.appendChild(link);
     }
 
@@ -125,11 +144,13 @@ export default function App() {
     
     if (savedLog) {
       try {
-        setMedicineLog(JSON.parse(savedLog));
+        setMedicineLog(normalizeLegacyLog(JSON.parse(savedLog)));
       } catch (error) {
         console.error('Error loading log from localStorage:', error);
       }
     }
+
+    setHasLoaded(true);
   }, []);
 
   // Save data to localStorage whenever medicines or log changes
@@ -141,121 +162,193 @@ export default function App() {
     localStorage.setItem('pillreminder-log', JSON.stringify(medicineLog));
   }, [medicineLog]);
 
+  // Notice when the device moves to another time zone so travel policies can take effect
+  useEffect(() => {
+    syncTravelZone();
+    const interval = setInterval(() => syncTravelZone(), 60000);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    registerServiceWorker();
+  }, []);
+
+  // Write reminders the service worker showed to the history, and Take / Snooze taps from system
+  // notifications to the log, on opening and while open. Firings go first so the taps can answer them.
+  useEffect(() => {
+    if (!hasLoaded) return;
+
+    const applyNotificationActions = async () => {
+      const fired = await takeFiredReminders();
+      recordFiredReminders(fired);
+      fired.forEach(({ doses, firedAt }) => doses.forEach(dose =>
+        recordBackgroundAlert(getReminderKey(dose.medicineId, dose.date, dose.time), firedAt)
+      ));
+
+      for (const action of await takePendingActions()) {
+        if (action.type === 'take') {
+          handleTakeMedicine(action.medicineId, action.time, action.date, new Date(action.at));
+        } else {
+          handleSnoozeMedicine(action.medicineId, action.time, action.date, action.minutes, new Date(action.at));
+        }
+      }
+    };
+
+    applyNotificationActions();
+    return onNotificationAction(applyNotificationActions);
+  }, [hasLoaded, medicines]);
+
+  // Keep the service worker's reminders for the next day in step with the schedule
+  useEffect(() => {
+    if (!hasLoaded || !canNotify()) return;
+
+    const upcoming = getUpcomingDoses(medicines, new Date(), '24h')
+      .filter(dose => !findLogEntry(medicineLog, dose));
+    scheduleSystemReminders(upcoming, medicineLog);
+
+    if (isPushRelayConfigured()) {
+      syncPushSchedule(getUpcomingDoses(medicines, new Date(), '7d')
+        .filter(dose => !findLogEntry(medicineLog, dose)));
+    }
+  }, [hasLoaded, medicines, medicineLog, alertSettings]);
+
+  // Count doses waiting to be taken on the app icon and tab title
+  useEffect(() => {
+    if (!hasLoaded) return;
+
+    const refreshBadge = () => updateAppBadge(countPendingDoses(medicines, medicineLog));
+    refreshBadge();
+    const interval = setInterval(refreshBadge, 60000);
+
+    return () => clearInterval(interval);
+  }, [hasLoaded, medicines, medicineLog, travelSettings]);
+
+  // Log doses as missed once their grace period has passed
+  useEffect(() => {
+    const markMissedDoses = () => {
+      setMedicineLog(prev => {
+        const missed = findNewlyMissedDoses(medicines, prev);
+        return missed.length > 0 ? [...prev, ...missed] : prev;
+      });
+    };
+
+    markMissedDoses();
+    const interval = setInterval(markMissedDoses, 60000);
+
+    return () => clearInterval(interval);
+  }, [medicines, travelSettings]);
+
   const handleAddMedicine = (medicine: Medicine) => {
     setMedicines(prev => [...prev, medicine]);
     setShowForm(false);
     playSuccessSound();
   };
 
+  const handleRoutineChange = (newRoutine: RoutineProfile) => {
+    saveRoutine(newRoutine);
+  };
+
+  const handleAlertSettingsChange = (settings: AlertSettings) => {
+    saveAlertSettings(settings);
+  };
+
+  const handleTravelSettingsChange = (settings: TravelSettings) => {
+    // Moving home carries over the medicines that were written in the old home zone
+    if (settings.homeZone !== travelSettings.homeZone) {
+      setMedicines(prev => prev.map(med =>
+        med.timeZone === travelSettings.homeZone ? { ...med, timeZone: settings.homeZone } : med
+      ));
+    }
+    saveTravelSettings(settings);
+  };
+
+  const handleApplyTimetable = (changes: TimetableChange[]) => {
+    setMedicines(prev => prev.map(med => {
+      const change = changes.find(c => c.medicine.id === med.id);
+      return change ? { ...med, times: change.times } : med;
+    }));
+    toast.success('Schedule updated');
+  };
+
   const handleDeleteMedicine = (id: string) => {
     setMedicines(prev => prev.filter(med => med.id !== id));
     toast.success('Medicine removed successfully');
   };
 
-  const handleTakeMedicine = (medicineId: string, time: string) => {
+  const handleTakeMedicine = (medicineId: string, time: string, date: string, takenAt = new Date()) => {
     const medicine = medicines.find(med => med.id === medicineId);
     if (medicine) {
       const logEntry: MedicineLog = {
         medicineId,
         medicineName: medicine.name,
         time,
-        takenAt: new Date().toTimeString().slice(0, 5),
-        date: new Date().toISOString().split('T')[0]
+        takenAt: takenAt.toTimeString().slice(0, 5),
+        date,
+        dosage: getDosageOn(medicine, parseDateKey(date)),
+        timestamp: takenAt.toISOString(),
+        status: 'taken'
       };
-      setMedicineLog(prev => [...prev, logEntry]);
+      recordReminderResponse(medicineId, date, time, 'taken', takenAt);
+      // A late dose replaces the entry that marked it as missed
+      setMedicineLog(prev => [
+        ...prev.filter(log => !(log.medicineId === medicineId && log.date === date && log.time === time && log.status === 'missed')),
+        logEntry
+      ]);
     }
   };
 
-  const handleDismissNotification = (medicineId: string, time: string) => {
-    // In a real app, you might want to track dismissed notifications
-    console.log(`Dismissed notification for medicine ${medicineId} at ${time}`);
+  const handleSnoozeMedicine = (medicineId: string, time: string, date: string, minutes: number, now = new Date()) => {
+    const medicine = medicines.find(med => med.id === medicineId);
+    if (medicine) {
+      const snoozedUntil = new Date(now.getTime() + minutes * 60000).toISOString();
+      const logEntry: MedicineLog = {
+        medicineId,
+        medicineName: medicine.name,
+        time,
+        takenAt: '',
+        date,
+        dosage: getDosageOn(medicine, parseDateKey(date)),
+        timestamp: now.toISOString(),
+        status: 'snoozed',
+        snoozedUntil
+      };
+      updateReminderState(getReminderKey(medicineId, date, time), { snoozedUntil });
+      recordReminderResponse(medicineId, date, time, 'snoozed', now);
+      setMedicineLog(prev => [...prev, logEntry]);
+      toast(`${medicine.name} snoozed for ${minutes} min`);
+    }
   };
 
-  const getTodaysLog = () => {
-    const today = new Date().toISOString().split('T')[0];
-    return medicineLog.filter(log => log.date === today);
+  const handleDismissNotification = (medicineId: string, time: string, date: string) => {
+    recordReminderResponse(medicineId, date, time, 'dismissed');
   };
 
-  const getUpcomingMedicines = () => {
-    const now = new Date();
-    const currentMinutes = now.getHours() * 60 + now.getMinutes();
-    const upcoming = [];
-
-    for (const medicine of medicines) {
-      if (medicine.frequency === 'as-needed') continue;
-      
-      for (const time of medicine.times) {
-        const [hours, minutes] = time.split(':').map(Number);
-        const medicineMinutes = hours * 60 + minutes;
-        
-        if (medicineMinutes > currentMinutes) {
-          upcoming.push({
-            medicine,
-            time,
-            minutesUntil: medicineMinutes - currentMinutes
-          });
-        }
-      }
+  const getLogDetail = (log: MedicineLog) => {
+    switch (log.status) {
+      case 'missed': return 'Not taken';
+      case 'snoozed': return `Snoozed until ${new Date(log.snoozedUntil!).toTimeString().slice(0, 5)}`;
+      default: return `Taken: ${log.takenAt}`;
     }
+  };
 
-    return upcoming
-      .sort((a, b) => a.minutesUntil - b.minutesUntil)
-      .slice(0, 3);
+  const getTodaysLog = () => {
+    const today = toDateKey(new Date());
+    return medicineLog.filter(log => log.date === today);
   };
 
+  const today = new Date();
+  const currentMedicines = medicines.filter(medicine => getCourseStatus(medicine, today) !== 'completed');
+  const completedMedicines = medicines.filter(medicine => getCourseStatus(medicine, today) === 'completed');
+  const activeCount = currentMedicines.filter(medicine => getCourseStatus(medicine, today) === 'active').length;
   const todaysLog = getTodaysLog();
-  const upcomingMedicines = getUpcomingMedicines();
+  const takenTodayCount = todaysLog.filter(log => (log.status ?? 'taken') === 'taken').length;
+  const upcomingDoses = getUpcomingDoses(medicines, today, '24h');
 
   const renderTabContent = () => {
     switch (activeTab) {
       case 'upcoming':
-        return (
-          <div className="space-y-4">
-            <h2 className="text-lg font-semibold">Next Doses</h2>
-            {upcomingMedicines.length === 0 ? (
-              <Card>
-                <CardContent className="p-6 text-center">
-                  <Calendar className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                  <p className="text-muted-foreground">No upcoming doses in the next 2 hours</p>
-                </CardContent>
-              </Card>
-            ) : (
-              <div className="space-y-3">
-                {upcomingMedicines.slice(0, 10).map((item, index) => (
-                  <motion.div
-                    key={`${item.medicine.id}-${item.time}`}
-                    initial={{ opacity: 0, y: 20 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    transition={{ delay: index * 0.1 }}
-                  >
-                    <Card>
-                      <CardContent className="p-4">
-                        <div className="flex items-center justify-between">
-                          <div className="flex items-center gap-3">
-                            <div 
-                              className="w-4 h-4 rounded-full"
-                              style={{ backgroundColor: item.medicine.color }}
-                            />
-                            <div>
-                              <p className="font-medium">{item.medicine.name}</p>
-                              <p className="text-sm text-muted-foreground">{item.medicine.dosage}</p>
-                            </div>
-                          </div>
-                          <div className="text-right">
-                            <p className="font-medium">{item.time}</p>
-                            <p className="text-xs text-muted-foreground">
-                              in {Math.floor(item.minutesUntil / 60)}h {item.minutesUntil % 60}m
-                            </p>
-                          </div>
-                        </div>
-                      </CardContent>
-                    </Card>
-                  </motion.div>
-                ))}
-              </div>
-            )}
-          </div>
-        );
+        return <UpcomingDoses medicines={medicines} />;
       
       case 'history':
         return (
@@ -283,12 +376,22 @@ export default function App() {
                           <div>
                             <p className="font-medium">{log.medicineName}</p>
                             <p className="text-sm text-muted-foreground">
-                              Scheduled: {log.time} • Taken: {log.takenAt}
+                              {log.dosage && `${log.dosage} • `}Scheduled: {log.time} • {getLogDetail(log)}
                             </p>
                           </div>
-                          <Badge variant="secondary" className="text-xs">
-                            ✓ Done
-                          </Badge>
+                          {log.status === 'missed' ? (
+                            <Badge variant="destructive" className="text-xs">
+                              Missed
+                            </Badge>
+                          ) : log.status === 'snoozed' ? (
+                            <Badge variant="outline" className="text-xs">
+                              Snoozed
+                            </Badge>
+                          ) : (
+                            <Badge variant="secondary" className="text-xs">
+                              ✓ Done
+                            </Badge>
+                          )}
                         </div>
                       </CardContent>
                     </Card>
@@ -303,6 +406,12 @@ export default function App() {
         return (
           <div className="space-y-4">
             <h2 className="text-lg font-semibold">Settings</h2>
+            <NotificationSettings />
+            <SoundSettings settings={alertSettings} onChange={handleAlertSettingsChange} />
+            <VoiceReminderSettings />
+            <RoutineSettings routine={routine} onChange={handleRoutineChange} />
+            <TravelModeSettings settings={travelSettings} onChange={handleTravelSettingsChange} />
+            <CaregiverSettings />
             <Card>
               <CardContent className="p-4 space-y-4">
                 <div className="text-center">
@@ -326,7 +435,7 @@ export default function App() {
               <Card>
                 <CardContent className="p-3 text-center">
                   <Pill className="h-6 w-6 text-blue-500 mx-auto mb-2" />
-                  <p className="text-xl font-bold">{medicines.length}</p>
+                  <p className="text-xl font-bold">{activeCount}</p>
                   <p className="text-xs text-muted-foreground">Active</p>
                 </CardContent>
               </Card>
@@ -334,7 +443,7 @@ export default function App() {
               <Card>
                 <CardContent className="p-3 text-center">
                   <Clock className="h-6 w-6 text-green-500 mx-auto mb-2" />
-                  <p className="text-xl font-bold">{todaysLog.length}</p>
+                  <p className="text-xl font-bold">{takenTodayCount}</p>
                   <p className="text-xs text-muted-foreground">Today</p>
                 </CardContent>
               </Card>
@@ -342,24 +451,26 @@ export default function App() {
               <Card>
                 <CardContent className="p-3 text-center">
                   <TrendingUp className="h-6 w-6 text-orange-500 mx-auto mb-2" />
-                  <p className="text-xl font-bold">{upcomingMedicines.length}</p>
+                  <p className="text-xl font-bold">{upcomingDoses.length}</p>
                   <p className="text-xs text-muted-foreground">Next</p>
                 </CardContent>
               </Card>
             </div>
 
+            <ScheduleCheck medicines={currentMedicines} onApply={handleApplyTimetable} />
+
             {/* Current Medicines */}
             <div className="space-y-3">
               <div className="flex items-center justify-between">
                 <h2 className="text-lg font-semibold">Your Medicines</h2>
-                {medicines.length > 0 && (
+                {activeCount > 0 && (
                   <Badge variant="secondary" className="text-xs">
-                    {medicines.length} active
+                    {activeCount} active
                   </Badge>
                 )}
               </div>
 
-              {medicines.length === 0 ? (
+              {currentMedicines.length === 0 ? (
                 <Card>
                   <CardContent className="p-6 text-center">
                     <Pill className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
@@ -371,7 +482,7 @@ export default function App() {
                 </Card>
               ) : (
                 <div className="space-y-3">
-                  {medicines.map((medicine, index) => (
+                  {currentMedicines.map((medicine, index) => (
                     <motion.div
                       key={medicine.id}
                       initial={{ opacity: 0, y: 20 }}
@@ -380,6 +491,7 @@ export default function App() {
                     >
                       <MedicineCard
                         medicine={medicine}
+                        medicineLog={medicineLog}
                         onDelete={handleDeleteMedicine}
                         onTakeMedicine={handleTakeMedicine}
                       />
@@ -388,6 +500,13 @@ export default function App() {
                 </div>
               )}
             </div>
+
+            {/* Completed Courses */}
+            <CompletedCourses
+              medicines={completedMedicines}
+              medicineLog={medicineLog}
+              onDelete={handleDeleteMedicine}
+            />
           </div>
         );
     }
@@ -413,6 +532,7 @@ export default function App() {
         
         <div className="p-4 pb-20">
           <MedicineForm 
+            medicines={currentMedicines}
             onAddMedicine={handleAddMedicine}
             onClose={() => setShowForm(false)}
           />
@@ -427,8 +547,12 @@ export default function App() {
       {/* Notifications */}
       <NotificationAlert
         medicines={medicines}
+        medicineLog={medicineLog}
         onTakeMedicine={handleTakeMedicine}
+        onSnooze={handleSnoozeMedicine}
         onDismiss={handleDismissNotification}
+        alertSettings={alertSettings}
+        onAlertSettingsChange={handleAlertSettingsChange}
       />
       
       <div className="pb-20 min-h-screen">
@@ -465,7 +589,7 @@ export default function App() {
                         <div className="flex items-center gap-3">
                           <Pill className="h-8 w-8 text-blue-500" />
                           <div>
-                            <p className="text-2xl font-bold">{medicines.length}</p>
+                            <p className="text-2xl font-bold">{activeCount}</p>
                             <p className="text-sm text-muted-foreground">Active Medicines</p>
                           </div>
                         </div>
@@ -477,7 +601,7 @@ export default function App() {
                         <div className="flex items-center gap-3">
                           <Clock className="h-8 w-8 text-green-500" />
                           <div>
-                            <p className="text-2xl font-bold">{todaysLog.length}</p>
+                            <p className="text-2xl font-bold">{takenTodayCount}</p>
                             <p className="text-sm text-muted-foreground">Taken Today</p>
                           </div>
                         </div>
@@ -489,7 +613,7 @@ export default function App() {
                         <div className="flex items-center gap-3">
                           <TrendingUp className="h-8 w-8 text-orange-500" />
                           <div>
-                            <p className="text-2xl font-bold">{upcomingMedicines.length}</p>
+                            <p className="text-2xl font-bold">{upcomingDoses.length}</p>
                             <p className="text-sm text-muted-foreground">Upcoming Doses</p>
                           </div>
                         </div>
@@ -497,57 +621,23 @@ export default function App() {
                     </Card>
                   </div>
 
-                  {/* Next Doses */}
-                  {upcomingMedicines.length > 0 && (
-                    <Card>
-                      <CardHeader>
-                        <CardTitle className="flex items-center gap-2">
-                          <Calendar className="h-5 w-5" />
-                          Next Doses
-                        </CardTitle>
-                      </CardHeader>
-                      <CardContent className="p-4 pt-0">
-                        <div className="space-y-3">
-                          {upcomingMedicines.map((item, index) => (
-                            <div
-                              key={`${item.medicine.id}-${item.time}`}
-                              className="flex items-center justify-between p-3 rounded-lg border"
-                            >
-                              <div className="flex items-center gap-3">
-                                <div 
-                                  className="w-4 h-4 rounded-full"
-                                  style={{ backgroundColor: item.medicine.color }}
-                                />
-                                <div>
-                                  <p className="font-medium">{item.medicine.name}</p>
-                                  <p className="text-sm text-muted-foreground">{item.medicine.dosage}</p>
-                                </div>
-                              </div>
-                              <div className="text-right">
-                                <p className="font-medium">{item.time}</p>
-                                <p className="text-xs text-muted-foreground">
-                                  in {Math.floor(item.minutesUntil / 60)}h {item.minutesUntil % 60}m
-                                </p>
-                              </div>
-                            </div>
-                          ))}
-                        </div>
-                      </CardContent>
-                    </Card>
-                  )}
+                  <ScheduleCheck medicines={currentMedicines} onApply={handleApplyTimetable} />
+
+                  {/* Next Doses, with the same horizons and day grouping as the mobile tab */}
+                  <UpcomingDoses medicines={medicines} />
 
                   {/* Current Medicines */}
                   <div className="space-y-4">
                     <div className="flex items-center justify-between">
                       <h2 className="text-xl font-semibold">Your Medicines</h2>
-                      {medicines.length > 0 && (
+                      {activeCount > 0 && (
                         <Badge variant="secondary">
-                          {medicines.length} active
+                          {activeCount} active
                         </Badge>
                       )}
                     </div>
 
-                    {medicines.length === 0 ? (
+                    {currentMedicines.length === 0 ? (
                       <Card>
                         <CardContent className="p-8 text-center">
                           <Pill className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
@@ -562,10 +652,11 @@ export default function App() {
                       </Card>
                     ) : (
                       <div className="grid gap-4">
-                        {medicines.map(medicine => (
+                        {currentMedicines.map(medicine => (
                           <MedicineCard
                             key={medicine.id}
                             medicine={medicine}
+                            medicineLog={medicineLog}
                             onDelete={handleDeleteMedicine}
                             onTakeMedicine={handleTakeMedicine}
                           />
@@ -574,6 +665,13 @@ export default function App() {
                     )}
                   </div>
 
+                  {/* Completed Courses */}
+                  <CompletedCourses
+                    medicines={completedMedicines}
+                    medicineLog={medicineLog}
+                    onDelete={handleDeleteMedicine}
+                  />
+
                   {/* Today's Log */}
                   {todaysLog.length > 0 && (
                     <Card>
@@ -588,23 +686,50 @@ export default function App() {
                           {todaysLog.slice(-5).reverse().map((log, index) => (
                             <div
                               key={index}
-                              className="flex items-center justify-between p-2 rounded border-l-4 border-l-green-500 bg-green-50 dark:bg-green-950/20"
+                              className={`flex items-center justify-between p-2 rounded border-l-4 ${
+                                log.status === 'missed'
+                                  ? 'border-l-destructive bg-destructive/5'
+                                  : log.status === 'snoozed'
+                                  ? 'border-l-orange-400 bg-orange-50 dark:bg-orange-950/20'
+                                  : 'border-l-green-500 bg-green-50 dark:bg-green-950/20'
+                              }`}
                             >
                               <div>
                                 <p className="font-medium">{log.medicineName}</p>
                                 <p className="text-sm text-muted-foreground">
-                                  Scheduled: {log.time} • Taken: {log.takenAt}
+                                  {log.dosage && `${log.dosage} • `}Scheduled: {log.time} • {getLogDetail(log)}
                                 </p>
                               </div>
-                              <Badge variant="secondary" className="text-xs">
-                                Completed
-                              </Badge>
+                              {log.status === 'missed' ? (
+                                <Badge variant="destructive" className="text-xs">
+                                  Missed
+                                </Badge>
+                              ) : log.status === 'snoozed' ? (
+                                <Badge variant="outline" className="text-xs">
+                                  Snoozed
+                                </Badge>
+                              ) : (
+                                <Badge variant="secondary" className="text-xs">
+                                  Completed
+                                </Badge>
+                              )}
                             </div>
                           ))}
                         </div>
                       </CardContent>
                     </Card>
                   )}
+
+                  {/* Settings */}
+                  <div className="space-y-4">
+                    <h2 className="text-xl font-semibold">Settings</h2>
+                    <NotificationSettings />
+                    <SoundSettings settings={alertSettings} onChange={handleAlertSettingsChange} />
+                    <VoiceReminderSettings />
+                    <RoutineSettings routine={routine} onChange={handleRoutineChange} />
+                    <TravelModeSettings settings={travelSettings} onChange={handleTravelSettingsChange} />
+                    <CaregiverSettings />
+                  </div>
                 </div>
               )}
             </motion.div>
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { Card, CardContent } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { HeartHandshake } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { loadCaregiver, saveCaregiver, storedCaregiver } from '../utils/caregiver';
+import { useStoredValue } from '../utils/storedValue';
+
+export function CaregiverSettings() {
+  const [contact, setContact] = useState(() => {
+    const saved = loadCaregiver();
+    return { name: saved?.name ?? '', phone: saved?.phone ?? '', webhookUrl: saved?.webhookUrl ?? '' };
+  });
+  const hasSaved = useStoredValue(storedCaregiver) !== null;
+
+  const handleSave = () => {
+    if (!contact.name.trim()) {
+      toast.error('Please enter the caregiver\'s name');
+      return;
+    }
+    if (contact.webhookUrl && !/^https?:\/\//.test(contact.webhookUrl)) {
+      toast.error('The alert URL must start with http:// or https://');
+      return;
+    }
+
+    saveCaregiver({
+      name: contact.name.trim(),
+      phone: contact.phone.trim() || undefined,
+      webhookUrl: contact.webhookUrl.trim() || undefined
+    });
+    toast.success('Caregiver saved');
+  };
+
+  const handleRemove = () => {
+    saveCaregiver(null);
+    setContact({ name: '', phone: '', webhookUrl: '' });
+    toast('Caregiver removed');
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-center gap-2">
+          <HeartHandshake className="h-5 w-5 text-primary" />
+          <div>
+            <h3 className="font-medium">Caregiver</h3>
+            <p className="text-xs text-muted-foreground">
+              Alerted when a medicine with strict reminders goes unacknowledged
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="caregiver-name" className="text-xs text-muted-foreground">Name</Label>
+            <Input
+              id="caregiver-name"
+              value={contact.name}
+              onChange={(e) => setContact(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="e.g. Sam"
+              className="h-10"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="caregiver-phone" className="text-xs text-muted-foreground">Phone</Label>
+            <Input
+              id="caregiver-phone"
+              type="tel"
+              value={contact.phone}
+              onChange={(e) => setContact(prev => ({ ...prev, phone: e.target.value }))}
+              className="h-10"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="caregiver-webhook" className="text-xs text-muted-foreground">Alert URL (optional)</Label>
+            <Input
+              id="caregiver-webhook"
+              type="url"
+              value={contact.webhookUrl}
+              onChange={(e) => setContact(prev => ({ ...prev, webhookUrl: e.target.value }))}
+              placeholder="https://"
+              className="h-10"
+            />
+            <p className="text-xs text-muted-foreground">
+              Receives a message for each unacknowledged dose, e.g. from an automation service that texts or emails.
+              Without it, the reminder offers to text the caregiver instead.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          {hasSaved && (
+            <Button variant="outline" className="flex-1" onClick={handleRemove}>
+              Remove
+            </Button>
+          )}
+          <Button className="flex-1" onClick={handleSave}>
+            Save Caregiver
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,88 @@
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Progress } from './ui/progress';
+import { CheckCircle, Trash2 } from 'lucide-react';
+import type { Medicine, MedicineLog } from '../types/medicine';
+import { getAdherenceSummary, parseDateKey } from '../utils/doseSchedule';
+
+interface CompletedCoursesProps {
+  medicines: Medicine[];
+  medicineLog: MedicineLog[];
+  onDelete: (id: string) => void;
+}
+
+export function CompletedCourses({ medicines, medicineLog, onDelete }: CompletedCoursesProps) {
+  const formatDate = (dateKey: string) => {
+    return parseDateKey(dateKey).toLocaleDateString([], { month: 'short', day: 'numeric' });
+  };
+
+  if (medicines.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CheckCircle className="h-5 w-5" />
+          Completed Courses
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-4 pt-0">
+        <div className="space-y-3">
+          {medicines.map(medicine => {
+            const summary = getAdherenceSummary(medicine, medicineLog);
+
+            return (
+              <div key={medicine.id} className="p-3 rounded-lg border space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div
+                      className="w-4 h-4 rounded-full flex-shrink-0"
+                      style={{ backgroundColor: medicine.color }}
+                    />
+                    <div>
+                      <p className="font-medium">{medicine.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDate(medicine.startDate)} – {medicine.endDate && formatDate(medicine.endDate)}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {summary.percent !== null && (
+                      <Badge variant={summary.percent >= 80 ? 'secondary' : 'destructive'} className="text-xs">
+                        {summary.percent}%
+                      </Badge>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onDelete(medicine.id)}
+                      className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                {summary.percent !== null ? (
+                  <>
+                    <Progress value={summary.percent} />
+                    <p className="text-xs text-muted-foreground">
+                      {Math.min(summary.taken, summary.scheduled)} of {summary.scheduled} doses taken
+                      {summary.snoozed > 0 && ` • postponed ${summary.snoozed} ${summary.snoozed === 1 ? 'time' : 'times'}`}
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    {summary.taken} {summary.taken === 1 ? 'dose' : 'doses'} logged
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,206 @@
+import { useEffect, useRef, useState } from 'react';
+import { motion, useAnimationControls, type PanInfo } from 'motion/react';
+import { BellRing, ChevronsRight } from 'lucide-react';
+import { useSoundManager } from './SoundManager';
+import type { ScheduledDose } from '../utils/doseSchedule';
+import { getMedicineSound, getMedicineVolume, type AlertMode } from '../utils/alertSettings';
+
+interface FullScreenAlarmProps {
+  doses: ScheduledDose[];
+  mode: AlertMode;
+  onAcknowledge: () => void;
+}
+
+const HOLD_MS = 1500;
+const SWIPE_THRESHOLD = 0.75; // share of the track the thumb must travel
+const VIBRATION_PATTERN = [600, 300, 600, 300, 600];
+const VIBRATION_INTERVAL_MS = 3000;
+
+// Keeps the display on while the alarm shows; the browser drops the lock whenever the page is hidden
+function useScreenWakeLock() {
+  useEffect(() => {
+    if (!('wakeLock' in navigator)) return;
+
+    let sentinel: WakeLockSentinel | null = null;
+    let isActive = true;
+
+    const requestLock = async () => {
+      if (document.visibilityState !== 'visible') return;
+      try {
+        const lock = await navigator.wakeLock.request('screen');
+        if (isActive) {
+          sentinel = lock;
+        } else {
+          lock.release();
+        }
+      } catch (error) {
+        console.warn('Screen Wake Lock unavailable:', error);
+      }
+    };
+
+    requestLock();
+    document.addEventListener('visibilitychange', requestLock);
+
+    return () => {
+      isActive = false;
+      document.removeEventListener('visibilitychange', requestLock);
+      sentinel?.release();
+    };
+  }, []);
+}
+
+export function FullScreenAlarm({ doses, mode, onAcknowledge }: FullScreenAlarmProps) {
+  const [currentTime, setCurrentTime] = useState(new Date());
+  const [isHolding, setIsHolding] = useState(false);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const holdTimer = useRef<number | null>(null);
+  const thumbControls = useAnimationControls();
+  const { startAlarmLoop, stopAlarm } = useSoundManager();
+
+  useScreenWakeLock();
+
+  useEffect(() => {
+    const timer = setInterval(() => setCurrentTime(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const sound = getMedicineSound(doses[0].medicine);
+  const volume = getMedicineVolume(doses[0].medicine);
+
+  // Loop the alarm and vibration until acknowledged, within what quiet hours allow
+  useEffect(() => {
+    if (mode === 'sound') {
+      startAlarmLoop(1, sound, volume);
+    }
+
+    let vibration: number | undefined;
+    if (mode !== 'silent' && 'vibrate' in navigator) {
+      navigator.vibrate(VIBRATION_PATTERN);
+      vibration = window.setInterval(() => navigator.vibrate(VIBRATION_PATTERN), VIBRATION_INTERVAL_MS);
+    }
+
+    return () => {
+      stopAlarm();
+      clearInterval(vibration);
+      if ('vibrate' in navigator) navigator.vibrate(0);
+    };
+  }, [mode, sound, volume, startAlarmLoop, stopAlarm]);
+
+  const cancelHold = () => {
+    if (holdTimer.current !== null) {
+      clearTimeout(holdTimer.current);
+      holdTimer.current = null;
+    }
+    setIsHolding(false);
+  };
+
+  const startHold = () => {
+    cancelHold();
+    setIsHolding(true);
+    holdTimer.current = window.setTimeout(() => {
+      holdTimer.current = null;
+      onAcknowledge();
+    }, HOLD_MS);
+  };
+
+  useEffect(() => cancelHold, []);
+
+  const handleDragEnd = (_event: PointerEvent | MouseEvent | TouchEvent, info: PanInfo) => {
+    const trackWidth = trackRef.current?.offsetWidth ?? 0;
+    if (trackWidth > 0 && info.offset.x >= trackWidth * SWIPE_THRESHOLD) {
+      onAcknowledge();
+    } else {
+      thumbControls.start({ x: 0 });
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[60] flex flex-col items-center justify-between bg-primary text-primary-foreground p-6 select-none safe-area-inset-top"
+      role="alertdialog"
+      aria-modal="true"
+      aria-label="Medicine alarm"
+    >
+      <div className="text-center pt-12">
+        <p className="text-6xl font-bold tabular-nums">
+          {currentTime.toTimeString().slice(0, 5)}
+        </p>
+        <p className="text-sm opacity-80 mt-2">
+          Scheduled for {doses[0].localTime}
+          {doses[0].homeTime && ` (${doses[0].homeTime} home)`}
+        </p>
+      </div>
+
+      <div className="flex flex-col items-center gap-6 w-full max-w-sm">
+        <motion.div
+          animate={{ scale: [1, 1.15, 1], rotate: [0, 12, -12, 0] }}
+          transition={{ duration: 1, repeat: Infinity }}
+        >
+          <BellRing className="h-20 w-20" />
+        </motion.div>
+
+        <div className="w-full space-y-3">
+          {doses.map(dose => (
+            <div key={`${dose.medicine.id}|${dose.time}`} className="flex items-center gap-3 rounded-lg bg-primary-foreground/10 p-4">
+              <div
+                className="w-5 h-5 rounded-full border-2 border-primary-foreground/60 shrink-0"
+                style={{ backgroundColor: dose.medicine.color }}
+              />
+              <div className="min-w-0">
+                <p className="text-xl font-semibold truncate">{dose.medicine.name}</p>
+                <p className="text-sm opacity-80">
+                  {dose.dosage}
+                  {dose.instruction && ` • ${dose.instruction}`}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="w-full max-w-sm space-y-3 pb-8">
+        <div
+          ref={trackRef}
+          className="relative h-16 rounded-full bg-primary-foreground/15 overflow-hidden"
+        >
+          <motion.div
+            className="absolute inset-y-0 left-0 rounded-full bg-primary-foreground/20"
+            initial={{ width: 0 }}
+            animate={{ width: isHolding ? '100%' : 0 }}
+            transition={{ duration: isHolding ? HOLD_MS / 1000 : 0.2, ease: 'linear' }}
+          />
+          <p className="absolute inset-0 flex items-center justify-center text-sm font-medium opacity-80 pointer-events-none">
+            Slide or hold to acknowledge
+          </p>
+          <motion.button
+            type="button"
+            drag="x"
+            dragConstraints={trackRef}
+            dragElastic={0}
+            dragMomentum={false}
+            animate={thumbControls}
+            onDragStart={cancelHold}
+            onDragEnd={handleDragEnd}
+            onPointerDown={startHold}
+            onPointerUp={cancelHold}
+            onPointerCancel={cancelHold}
+            onKeyDown={(e) => {
+              if ((e.key === 'Enter' || e.key === ' ') && !e.repeat) startHold();
+            }}
+            onKeyUp={cancelHold}
+            className="absolute top-1 left-1 h-14 w-14 rounded-full bg-primary-foreground text-primary flex items-center justify-center shadow-lg touch-none"
+            aria-label="Hold or slide to acknowledge the alarm"
+          >
+            <ChevronsRight className="h-6 w-6" />
+          </motion.button>
+        </div>
+        <p className="text-xs text-center opacity-70">
+          The alarm keeps going until you acknowledge it. You can then take or snooze the dose.
+        </p>
+      </div>
+    </motion.div>
+  );
+}
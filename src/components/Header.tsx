@@ -3,18 +3,9 @@ import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { Pill, Plus, Calendar, Bell, Moon, Sun } from 'lucide-react';
 import { useState, useEffect } from 'react';
-
-interface Medicine {
-  id: string;
-  name: string;
-  dosage: string;
-  frequency: string;
-  times: string[];
-  startDate: string;
-  endDate?: string;
-  notes?: string;
-  color: string;
-}
+import type { Medicine } from '../types/medicine';
+import { getCourseStatus, getDosesBetween } from '../utils/doseSchedule';
+import { NotificationCenter } from './NotificationCenter';
 
 interface HeaderProps {
   medicines: Medicine[];
@@ -46,24 +37,14 @@ export function Header({ medicines, onAddMedicine, className = '' }: HeaderProps
 
   const getUpcomingDoses = () => {
     const now = new Date();
-    const currentMinutes = now.getHours() * 60 + now.getMinutes();
-    let upcomingCount = 0;
+    const from = new Date(now.getTime() + 1);
+    const to = new Date(now.getTime() + 120 * 60 * 1000 + 1);
 
-    medicines.forEach(medicine => {
-      if (medicine.frequency === 'as-needed') return;
-      
-      medicine.times.forEach(time => {
-        const [hours, minutes] = time.split(':').map(Number);
-        const medicineMinutes = hours * 60 + minutes;
-        
-        // Count upcoming doses in the next 2 hours
-        if (medicineMinutes > currentMinutes && medicineMinutes <= currentMinutes + 120) {
-          upcomingCount++;
-        }
-      });
-    });
-
-    return upcomingCount;
+    // Count upcoming doses in the next 2 hours
+    return medicines.reduce(
+      (total, medicine) => total + getDosesBetween(medicine, from, to).length,
+      0
+    );
   };
 
   const formatTime = (date: Date) => {
@@ -83,6 +64,7 @@ export function Header({ medicines, onAddMedicine, className = '' }: HeaderProps
   };
 
   const upcomingDoses = getUpcomingDoses();
+  const activeCount = medicines.filter(medicine => getCourseStatus(medicine, currentTime) === 'active').length;
 
   return (
     <Card className={`w-full ${className}`}>
@@ -99,6 +81,8 @@ export function Header({ medicines, onAddMedicine, className = '' }: HeaderProps
           </div>
           
           <div className="flex items-center gap-2">
+            <NotificationCenter medicines={medicines} />
+
             <Button
               variant="ghost"
               size="sm"
@@ -130,7 +114,7 @@ export function Header({ medicines, onAddMedicine, className = '' }: HeaderProps
           <div className="flex items-center gap-3">
             <div className="flex items-center gap-2">
               <Calendar className="h-4 w-4 text-muted-foreground" />
-              <span className="text-sm">{medicines.length} Active</span>
+              <span className="text-sm">{activeCount} Active</span>
             </div>
             
             {upcomingDoses > 0 && (
@@ -1,82 +1,70 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Card, CardContent } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
-import { Clock, Pill, Calendar, CheckCircle, AlertCircle, Trash2 } from 'lucide-react';
+import { Clock, Pill, Calendar, CheckCircle, AlertCircle, AlertTriangle, Trash2 } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
 import { useSoundManager } from './SoundManager';
-
-interface Medicine {
-  id: string;
-  name: string;
-  dosage: string;
-  frequency: string;
-  times: string[];
-  startDate: string;
-  endDate?: string;
-  notes?: string;
-  color: string;
-}
+import type { Medicine, MedicineLog } from '../types/medicine';
+import {
+  getCourseStatus,
+  getCycleLabel,
+  getDosageOn,
+  getDaysUntilStart,
+  getDosesForDay,
+  getNextDose,
+  getPhaseOn,
+  getRecurrenceLabel,
+  isPlanFinished,
+  parseDateKey,
+  toDateKey,
+  WEEKDAY_LABELS
+} from '../utils/doseSchedule';
+import { canStillTake, findLogEntry, getDoseState, getTiming, isTakenEntry } from '../utils/doseTiming';
+import { formatCountdown, getPrnStatus } from '../utils/prnLimits';
 
 interface MedicineCardProps {
   medicine: Medicine;
+  medicineLog: MedicineLog[];
   onDelete: (id: string) => void;
-  onTakeMedicine: (id: string, time: string) => void;
+  onTakeMedicine: (id: string, time: string, date: string) => void;
 }
 
-export function MedicineCard({ medicine, onDelete, onTakeMedicine }: MedicineCardProps) {
-  const [takenTimes, setTakenTimes] = useState<string[]>([]);
+export function MedicineCard({ medicine, medicineLog, onDelete, onTakeMedicine }: MedicineCardProps) {
+  const [showPrnWarning, setShowPrnWarning] = useState(false);
+  const [currentTime, setCurrentTime] = useState(new Date());
   const { playSuccessSound } = useSoundManager();
-  
-  const currentTime = new Date();
+
   const currentTimeString = currentTime.toTimeString().slice(0, 5);
+  const prnStatus = medicine.frequency === 'as-needed' ? getPrnStatus(medicine, medicineLog, currentTime) : null;
+  const prnBlocked = !!prnStatus?.nextAllowedAt;
 
-  const getNextDose = () => {
-    if (medicine.frequency === 'as-needed') return null;
-    
-    const now = new Date();
-    const currentMinutes = now.getHours() * 60 + now.getMinutes();
-    
-    for (const time of medicine.times) {
-      const [hours, minutes] = time.split(':').map(Number);
-      const medicineMinutes = hours * 60 + minutes;
-      
-      if (medicineMinutes > currentMinutes) {
-        return time;
-      }
-    }
-    
-    // If no more doses today, return first dose of tomorrow
-    return medicine.times[0];
-  };
+  // Tick every second while a PRN countdown is showing, otherwise every minute
+  useEffect(() => {
+    const timer = setInterval(() => setCurrentTime(new Date()), prnBlocked ? 1000 : 60000);
+    return () => clearInterval(timer);
+  }, [prnBlocked]);
 
-  const isDueNow = (time: string) => {
-    const [hours, minutes] = time.split(':').map(Number);
-    const medicineTime = new Date();
-    medicineTime.setHours(hours, minutes, 0, 0);
-    
-    const now = new Date();
-    const diffMinutes = Math.abs(now.getTime() - medicineTime.getTime()) / (1000 * 60);
-    
-    return diffMinutes <= 15; // Within 15 minutes
-  };
+  useEffect(() => {
+    if (!prnBlocked) setShowPrnWarning(false);
+  }, [prnBlocked]);
 
-  const isOverdue = (time: string) => {
-    const [hours, minutes] = time.split(':').map(Number);
-    const medicineTime = new Date();
-    medicineTime.setHours(hours, minutes, 0, 0);
-    
-    const now = new Date();
-    return now > medicineTime && !takenTimes.includes(time);
-  };
-
-  const handleTakeMedicine = (time: string) => {
-    setTakenTimes(prev => [...prev, time]);
-    onTakeMedicine(medicine.id, time);
+  const handleTakeMedicine = (time: string, date: string) => {
+    onTakeMedicine(medicine.id, time, date);
     playSuccessSound();
     toast.success(`Marked ${medicine.name} as taken for ${time}`);
   };
 
+  const handleTakeAsNeeded = () => {
+    if (prnBlocked && !showPrnWarning) {
+      setShowPrnWarning(true);
+      return;
+    }
+
+    setShowPrnWarning(false);
+    handleTakeMedicine(currentTimeString, toDateKey(currentTime));
+  };
+
   const getFrequencyLabel = (frequency: string) => {
     switch (frequency) {
       case 'once-daily': return 'Once Daily';
@@ -84,11 +72,42 @@ export function MedicineCard({ medicine, onDelete, onTakeMedicine }: MedicineCar
       case 'three-times-daily': return '3x Daily';
       case 'four-times-daily': return '4x Daily';
       case 'as-needed': return 'As Needed';
+      case 'interval': return `Every ${medicine.intervalHours}h`;
+      case 'tapering': return 'Tapering Plan';
       default: return frequency;
     }
   };
 
-  const nextDose = getNextDose();
+  const getNextDoseLabel = () => {
+    const dose = getNextDose(medicine, currentTime);
+    if (!dose) return null;
+    if (toDateKey(dose.at) === toDateKey(currentTime)) return dose.localTime;
+    return `${WEEKDAY_LABELS[dose.at.getDay()]} ${dose.localTime}`;
+  };
+
+  const nextDose = getNextDoseLabel();
+  const todaysDoses = getDosesForDay(medicine, currentTime);
+  const hasMissedDose = todaysDoses.some(dose =>
+    getDoseState(dose, currentTime) === 'missed' && !isTakenEntry(findLogEntry(medicineLog, dose))
+  );
+  const recurrenceLabel = getRecurrenceLabel(medicine);
+  const cycleLabel = getCycleLabel(medicine, currentTime);
+
+  const getPhaseLabel = () => {
+    const phase = getPhaseOn(medicine, currentTime);
+    if (!phase || !medicine.phases) return null;
+    const endDate = parseDateKey(phase.endDate).toLocaleDateString([], { month: 'short', day: 'numeric' });
+    return `Phase ${medicine.phases.indexOf(phase) + 1} of ${medicine.phases.length} · until ${endDate}`;
+  };
+
+  const phaseLabel = getPhaseLabel();
+  const planFinished = isPlanFinished(medicine, currentTime);
+  const notStarted = getCourseStatus(medicine, currentTime) === 'upcoming';
+
+  const getStartsInLabel = () => {
+    const days = getDaysUntilStart(medicine, currentTime);
+    return days === 1 ? 'Starts tomorrow' : `Starts in ${days} days`;
+  };
 
   return (
     <Card className="w-full">
@@ -101,7 +120,7 @@ export function MedicineCard({ medicine, onDelete, onTakeMedicine }: MedicineCar
             />
             <div>
               <h3 className="font-medium">{medicine.name}</h3>
-              <p className="text-sm text-muted-foreground">{medicine.dosage}</p>
+              <p className="text-sm text-muted-foreground">{getDosageOn(medicine, currentTime)}</p>
             </div>
           </div>
           <Button
@@ -121,6 +140,26 @@ export function MedicineCard({ medicine, onDelete, onTakeMedicine }: MedicineCar
               <Calendar className="h-3 w-3 mr-1" />
               {getFrequencyLabel(medicine.frequency)}
             </Badge>
+            {recurrenceLabel && medicine.frequency !== 'as-needed' && (
+              <Badge variant="secondary" className="text-xs">
+                {recurrenceLabel}
+              </Badge>
+            )}
+            {phaseLabel && (
+              <Badge variant="outline" className="text-xs">
+                {phaseLabel}
+              </Badge>
+            )}
+            {cycleLabel && (
+              <Badge variant="outline" className="text-xs">
+                {cycleLabel}
+              </Badge>
+            )}
+            {notStarted && (
+              <Badge variant="outline" className="text-xs">
+                {getStartsInLabel()}
+              </Badge>
+            )}
             {nextDose && (
               <Badge variant="outline" className="text-xs">
                 <Clock className="h-3 w-3 mr-1" />
@@ -130,15 +169,19 @@ export function MedicineCard({ medicine, onDelete, onTakeMedicine }: MedicineCar
           </div>
 
           {/* Scheduled Times */}
-          {medicine.frequency !== 'as-needed' && medicine.times.length > 0 && (
+          {todaysDoses.length > 0 && (
             <div className="space-y-2">
               <p className="text-sm font-medium">Today's Schedule:</p>
               <div className="grid gap-2">
-                {medicine.times.map((time, index) => {
-                  const isTaken = takenTimes.includes(time);
-                  const isDue = isDueNow(time);
-                  const overdue = isOverdue(time);
-                  
+                {todaysDoses.map((dose, index) => {
+                  const { time } = dose;
+                  const isTaken = isTakenEntry(findLogEntry(medicineLog, dose));
+                  const state = getDoseState(dose, currentTime);
+                  const isDue = state === 'due';
+                  const overdue = state === 'overdue' || state === 'missed';
+                  const missed = state === 'missed';
+                  const takeable = !missed || canStillTake(dose, currentTime);
+
                   return (
                     <div
                       key={index}
@@ -159,8 +202,19 @@ export function MedicineCard({ medicine, onDelete, onTakeMedicine }: MedicineCar
                           <Clock className="h-4 w-4 text-muted-foreground" />
                         )}
                         <span className={`text-sm ${isTaken ? 'line-through text-muted-foreground' : ''}`}>
-                          {time}
+                          {dose.localTime}
                         </span>
+                        {dose.homeTime && (
+                          <span className="text-xs text-muted-foreground">{dose.homeTime} home</span>
+                        )}
+                        {dose.instruction && (
+                          <span className="text-xs text-muted-foreground">{dose.instruction}</span>
+                        )}
+                        {dose.kind === 'placebo' && (
+                          <Badge variant="secondary" className="text-xs">
+                            Placebo
+                          </Badge>
+                        )}
                         {isDue && !isTaken && (
                           <Badge variant="default" className="text-xs">
                             Due Now
@@ -168,38 +222,91 @@ export function MedicineCard({ medicine, onDelete, onTakeMedicine }: MedicineCar
                         )}
                         {overdue && !isTaken && (
                           <Badge variant="destructive" className="text-xs">
-                            Overdue
+                            {missed ? 'Missed' : 'Overdue'}
                           </Badge>
                         )}
                       </div>
-                      {!isTaken && (
+                      {!isTaken && takeable && (
                         <Button
                           size="sm"
                           variant={isDue ? "default" : "outline"}
-                          onClick={() => handleTakeMedicine(time)}
+                          onClick={() => handleTakeMedicine(time, dose.date)}
                           className="h-10 px-4 text-sm touch-target"
                         >
                           <Pill className="h-4 w-4 mr-2" />
-                          Take
+                          {missed ? 'Take Late' : 'Take'}
                         </Button>
                       )}
+                      {!isTaken && !takeable && (
+                        <span className="text-xs text-muted-foreground">Skip this dose</span>
+                      )}
                     </div>
                   );
                 })}
               </div>
+              {hasMissedDose && (
+                <p className="text-xs text-muted-foreground">
+                  Missed a dose? Take it if it is within {getTiming(medicine).takeWithinHours}h of its time, otherwise skip it.
+                </p>
+              )}
             </div>
           )}
 
+          {/* Scheduled on other days only */}
+          {(medicine.frequency !== 'as-needed' || notStarted) && todaysDoses.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              {notStarted
+                ? `Course starts on ${parseDateKey(medicine.startDate).toLocaleDateString([], { month: 'short', day: 'numeric' })}`
+                : planFinished
+                ? 'Plan complete, no more doses'
+                : cycleLabel
+                ? 'Off day in this cycle, no doses today'
+                : 'No doses scheduled today'}
+            </p>
+          )}
+
           {/* As Needed Medicine */}
-          {medicine.frequency === 'as-needed' && (
-            <Button
-              variant="outline"
-              className="w-full h-12 touch-target"
-              onClick={() => handleTakeMedicine(currentTimeString)}
-            >
-              <Pill className="h-4 w-4 mr-2" />
-              Take Now
-            </Button>
+          {medicine.frequency === 'as-needed' && !notStarted && prnStatus && (
+            <div className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                {prnStatus.dosesLast24h} {prnStatus.dosesLast24h === 1 ? 'dose' : 'doses'} in the last 24 hours
+                {!!medicine.prn?.maxDosesPer24h && ` (max ${medicine.prn.maxDosesPer24h})`}
+                {!!medicine.prn?.amountPerDose && ` • ${prnStatus.amountLast24h}${medicine.prn.amountUnit ?? ''}`}
+                {!!medicine.prn?.maxAmountPer24h && ` of ${medicine.prn.maxAmountPer24h}${medicine.prn.amountUnit ?? ''}`}
+              </p>
+
+              {showPrnWarning && prnStatus.nextAllowedAt && (
+                <div className="p-3 rounded-lg border border-destructive bg-destructive/5 space-y-1">
+                  <div className="flex items-center gap-2 text-destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <p className="text-sm font-medium">{prnStatus.reason}</p>
+                  </div>
+                  <p className="text-sm">
+                    Next dose allowed in {formatCountdown(prnStatus.nextAllowedAt.getTime() - currentTime.getTime())}
+                  </p>
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                {showPrnWarning && (
+                  <Button
+                    variant="outline"
+                    className="flex-1 h-12 touch-target"
+                    onClick={() => setShowPrnWarning(false)}
+                  >
+                    Cancel
+                  </Button>
+                )}
+                <Button
+                  variant={showPrnWarning ? 'destructive' : 'outline'}
+                  className="flex-1 h-12 touch-target"
+                  onClick={handleTakeAsNeeded}
+                >
+                  <Pill className="h-4 w-4 mr-2" />
+                  {showPrnWarning ? 'Take Anyway' : 'Take Now'}
+                </Button>
+              </div>
+            </div>
           )}
 
           {/* Notes */}
@@ -5,22 +5,32 @@ import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Textarea } from './ui/textarea';
+import { Switch } from './ui/switch';
+import { Slider } from './ui/slider';
+import { TaperingPlanEditor } from './TaperingPlanEditor';
 import { toast } from 'sonner@2.0.3';
-import { Plus, Pill } from 'lucide-react';
-
-interface Medicine {
-  id: string;
-  name: string;
-  dosage: string;
-  frequency: string;
-  times: string[];
-  startDate: string;
-  endDate?: string;
-  notes?: string;
-  color: string;
-}
+import { Plus, Pill, X } from 'lucide-react';
+import type {
+  DosePhase,
+  EscalationLevel,
+  Medicine,
+  Recurrence,
+  RelativeTime,
+  RoutineAnchor,
+  SoundChoice,
+  SpacingRule,
+  TravelPolicy
+} from '../types/medicine';
+import { getDosesForDay, parseDateKey, toDateKey, WEEKDAY_LABELS } from '../utils/doseSchedule';
+import { formatRelativeTime, resolveRelativeTime, ROUTINE_ANCHORS } from '../utils/routine';
+import { DEFAULT_TIMING } from '../utils/doseTiming';
+import { loadTravelSettings, TRAVEL_POLICIES } from '../utils/travel';
+import { ESCALATION_LEVELS } from '../utils/escalation';
+import { SoundPicker } from './SoundPicker';
+import { loadAlertSettings } from '../utils/alertSettings';
 
 interface MedicineFormProps {
+  medicines: Medicine[];
   onAddMedicine: (medicine: Medicine) => void;
   onClose: () => void;
 }
@@ -30,33 +40,77 @@ const frequencyOptions = [
   { value: 'twice-daily', label: 'Twice Daily', times: 2 },
   { value: 'three-times-daily', label: 'Three Times Daily', times: 3 },
   { value: 'four-times-daily', label: 'Four Times Daily', times: 4 },
+  { value: 'interval', label: 'Every N Hours', times: 0 },
+  { value: 'tapering', label: 'Tapering / Titration Plan', times: 0 },
   { value: 'as-needed', label: 'As Needed', times: 0 }
 ];
 
+const anchorOffsetOptions = [-60, -30, -15, 0, 15, 30, 60, 120];
+
+const recurrenceOptions = [
+  { value: 'daily', label: 'Every Day' },
+  { value: 'weekdays', label: 'Specific Days of the Week' },
+  { value: 'every-n-days', label: 'Every N Days' },
+  { value: 'cycle', label: 'Cycle (Days On / Days Off)' }
+];
+
 const colors = [
   '#ef4444', '#f97316', '#eab308', '#22c55e', 
   '#06b6d4', '#3b82f6', '#8b5cf6', '#ec4899'
 ];
 
-export function MedicineForm({ onAddMedicine, onClose }: MedicineFormProps) {
+export function MedicineForm({ medicines, onAddMedicine, onClose }: MedicineFormProps) {
   const [formData, setFormData] = useState({
     name: '',
     dosage: '',
     frequency: '',
-    startDate: new Date().toISOString().split('T')[0],
+    intervalHours: '8',
+    anchorTime: '',
+    recurrence: 'daily' as Recurrence,
+    everyNDays: '2',
+    cycleDaysOn: '21',
+    cycleDaysOff: '7',
+    cyclePlacebo: false,
+    prnMinIntervalHours: '',
+    prnMaxDosesPer24h: '',
+    prnAmountPerDose: '',
+    prnMaxAmountPer24h: '',
+    prnAmountUnit: 'mg',
+    dueWindowMinutes: String(DEFAULT_TIMING.dueWindowMinutes),
+    gracePeriodMinutes: String(DEFAULT_TIMING.gracePeriodMinutes),
+    takeWithinHours: String(DEFAULT_TIMING.takeWithinHours),
+    travelPolicy: 'default',
+    minDoseGapHours: '',
+    escalation: 'none',
+    alertDuringQuietHours: false,
+    fullScreenAlarm: false,
+    sound: undefined as SoundChoice | undefined,
+    alarmVolume: undefined as number | undefined,
+    startDate: toDateKey(new Date()),
     endDate: '',
     notes: ''
   });
   const [times, setTimes] = useState<string[]>(['']);
+  const [timeAnchors, setTimeAnchors] = useState<(RelativeTime | null)[]>([null]);
+  const [daysOfWeek, setDaysOfWeek] = useState<number[]>([]);
+  const [phases, setPhases] = useState<DosePhase[]>([
+    { startDate: toDateKey(new Date()), endDate: '', dosage: '', times: [''] }
+  ]);
+  const [spacing, setSpacing] = useState<SpacingRule[]>([]);
   const [selectedColor, setSelectedColor] = useState(colors[0]);
+  const scheduledMedicines = medicines.filter(med => med.frequency !== 'as-needed');
+  // Tapering plans take their dates from the phases, which are checked separately
+  const endsBeforeStart = formData.frequency !== 'tapering' && !!formData.endDate && formData.endDate < formData.startDate;
 
   const handleFrequencyChange = (frequency: string) => {
     setFormData(prev => ({ ...prev, frequency }));
     const option = frequencyOptions.find(opt => opt.value === frequency);
     if (option && option.times > 0) {
       setTimes(Array(option.times).fill(''));
+      setTimeAnchors(Array(option.times).fill(null));
     } else {
       setTimes(['']);
+      setTimeAnchors([null]);
     }
   };
 
@@ -66,29 +120,193 @@ export function MedicineForm({ onAddMedicine, onClose }: MedicineFormProps) {
     setTimes(newTimes);
   };
 
+  const handleTimeAnchorChange = (index: number, anchor: RoutineAnchor | null, offsetMinutes = 0) => {
+    const newAnchors = [...timeAnchors];
+    newAnchors[index] = anchor ? { anchor, offsetMinutes } : null;
+    setTimeAnchors(newAnchors);
+  };
+
+  const handleSpacingChange = (index: number, rule: Partial<SpacingRule>) => {
+    setSpacing(prev => prev.map((current, i) => (i === index ? { ...current, ...rule } : current)));
+  };
+
+  const toggleDayOfWeek = (day: number) => {
+    setDaysOfWeek(prev =>
+      prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort()
+    );
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.name || !formData.dosage || !formData.frequency) {
+    const isTapering = formData.frequency === 'tapering';
+
+    if (!formData.name || (!formData.dosage && !isTapering) || !formData.frequency) {
       toast.error('Please fill in all required fields');
       return;
     }
 
-    if (formData.frequency !== 'as-needed' && times.some(time => !time)) {
+    const sortedPhases = [...phases].sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+    if (isTapering && sortedPhases.some(phase =>
+      !phase.startDate || !phase.endDate || !phase.dosage || phase.times.some(time => !time)
+    )) {
+      toast.error('Please complete the dates, dosage and times of every phase');
+      return;
+    }
+
+    if (isTapering && sortedPhases.some((phase, index) =>
+      phase.endDate < phase.startDate || (index > 0 && phase.startDate <= sortedPhases[index - 1].endDate)
+    )) {
+      toast.error('Plan phases must not overlap');
+      return;
+    }
+
+    if (endsBeforeStart) {
+      toast.error('The end date must be on or after the start date');
+      return;
+    }
+
+    const isInterval = formData.frequency === 'interval';
+    const intervalHours = Number(formData.intervalHours);
+
+    if (isInterval && (!Number.isInteger(intervalHours) || intervalHours < 1 || intervalHours > 24)) {
+      toast.error('Please enter an interval between 1 and 24 hours');
+      return;
+    }
+
+    if (isInterval && !formData.anchorTime) {
+      toast.error('Please set the time of the first dose');
+      return;
+    }
+
+    if (!isInterval && !isTapering && formData.frequency !== 'as-needed' && times.some((time, index) => !time && !timeAnchors[index])) {
       toast.error('Please set all medication times');
       return;
     }
 
+    const isScheduled = formData.frequency !== 'as-needed';
+    const everyNDays = Number(formData.everyNDays);
+
+    if (isScheduled && formData.recurrence === 'weekdays' && daysOfWeek.length === 0) {
+      toast.error('Please choose at least one day of the week');
+      return;
+    }
+
+    if (isScheduled && formData.recurrence === 'every-n-days' && (!Number.isInteger(everyNDays) || everyNDays < 2)) {
+      toast.error('Please enter a repeat interval of 2 days or more');
+      return;
+    }
+
+    const timing = {
+      dueWindowMinutes: Number(formData.dueWindowMinutes),
+      gracePeriodMinutes: Number(formData.gracePeriodMinutes),
+      takeWithinHours: Number(formData.takeWithinHours)
+    };
+
+    if (isScheduled && Object.values(timing).some(value => !(value >= 0))) {
+      toast.error('Please enter valid reminder timing values');
+      return;
+    }
+
+    if (isScheduled && timing.gracePeriodMinutes < timing.dueWindowMinutes) {
+      toast.error('The grace period must be at least as long as the due window');
+      return;
+    }
+
+    const minDoseGapHours = formData.minDoseGapHours ? Number(formData.minDoseGapHours) : undefined;
+
+    if (isScheduled && minDoseGapHours !== undefined && !(minDoseGapHours > 0 && minDoseGapHours < 24)) {
+      toast.error('Please enter a gap between doses of less than 24 hours');
+      return;
+    }
+
+    if (isScheduled && spacing.some(rule => !rule.medicineId || !(rule.hours > 0))) {
+      toast.error('Please choose a medicine and a positive number of hours for each spacing rule');
+      return;
+    }
+
+    const isCycle = isScheduled && formData.recurrence === 'cycle';
+    const cycleDaysOn = Number(formData.cycleDaysOn);
+    const cycleDaysOff = Number(formData.cycleDaysOff);
+
+    if (isCycle && (!Number.isInteger(cycleDaysOn) || cycleDaysOn < 1 || !Number.isInteger(cycleDaysOff) || cycleDaysOff < 1)) {
+      toast.error('Please enter at least 1 day on and 1 day off for the cycle');
+      return;
+    }
+
+    const isPrn = formData.frequency === 'as-needed';
+    const prnLimits = [
+      formData.prnMinIntervalHours,
+      formData.prnMaxDosesPer24h,
+      formData.prnAmountPerDose,
+      formData.prnMaxAmountPer24h
+    ].map(value => (value ? Number(value) : undefined));
+
+    if (isPrn && prnLimits.some(value => value !== undefined && !(value > 0))) {
+      toast.error('As-needed limits must be positive numbers');
+      return;
+    }
+
+    const [minIntervalHours, maxDosesPer24h, amountPerDose, maxAmountPer24h] = prnLimits;
+
+    if (isPrn && maxAmountPer24h !== undefined && (amountPerDose === undefined || amountPerDose > maxAmountPer24h)) {
+      toast.error('Set an amount per dose no larger than the daily maximum');
+      return;
+    }
+
     const medicine: Medicine = {
       id: Date.now().toString(),
       name: formData.name,
-      dosage: formData.dosage,
+      dosage: isTapering && !formData.dosage
+        ? `${sortedPhases[0].dosage} → ${sortedPhases[sortedPhases.length - 1].dosage}`
+        : formData.dosage,
       frequency: formData.frequency,
-      times: formData.frequency === 'as-needed' ? [] : times,
-      startDate: formData.startDate,
-      endDate: formData.endDate || undefined,
+      // Anchored doses also store today's resolved time as their clock time
+      times: formData.frequency === 'as-needed' || isInterval || isTapering
+        ? []
+        : times.map((time, index) => {
+            const relative = timeAnchors[index];
+            return relative ? resolveRelativeTime(relative, new Date()) : time;
+          }),
+      timeAnchors: !isInterval && !isTapering && timeAnchors.some(Boolean) ? timeAnchors : undefined,
+      intervalHours: isInterval ? intervalHours : undefined,
+      anchorTime: isInterval ? formData.anchorTime : undefined,
+      recurrence: isScheduled && formData.recurrence !== 'daily' ? formData.recurrence : undefined,
+      daysOfWeek: isScheduled && formData.recurrence === 'weekdays' ? daysOfWeek : undefined,
+      everyNDays: isScheduled && formData.recurrence === 'every-n-days' ? everyNDays : undefined,
+      cycleDaysOn: isCycle ? cycleDaysOn : undefined,
+      cycleDaysOff: isCycle ? cycleDaysOff : undefined,
+      cyclePlacebo: isCycle && formData.cyclePlacebo ? true : undefined,
+      phases: isTapering ? sortedPhases : undefined,
+      prn: isPrn && prnLimits.some(value => value !== undefined)
+        ? {
+            minIntervalHours,
+            maxDosesPer24h,
+            amountPerDose,
+            maxAmountPer24h,
+            amountUnit: amountPerDose !== undefined ? formData.prnAmountUnit || undefined : undefined
+          }
+        : undefined,
+      // Tapering plans run from their first phase to the end of their last
+      startDate: isTapering ? sortedPhases[0].startDate : formData.startDate,
+      endDate: isTapering ? sortedPhases[sortedPhases.length - 1].endDate : formData.endDate || undefined,
       notes: formData.notes || undefined,
-      color: selectedColor
+      color: selectedColor,
+      timing: isScheduled && (Object.keys(timing) as (keyof typeof timing)[]).some(key => timing[key] !== DEFAULT_TIMING[key])
+        ? timing
+        : undefined,
+      // Times are written in the home zone so travel policies know where they came from
+      timeZone: loadTravelSettings().homeZone,
+      spacing: isScheduled && spacing.length > 0 ? spacing : undefined,
+      minDoseGapHours: isScheduled && !isInterval ? minDoseGapHours : undefined,
+      travelPolicy: isScheduled && formData.travelPolicy !== 'default' ? formData.travelPolicy as TravelPolicy : undefined,
+      escalation: isScheduled && formData.escalation !== 'none' ? formData.escalation as EscalationLevel : undefined,
+      alertDuringQuietHours: isScheduled && formData.alertDuringQuietHours ? true : undefined,
+      fullScreenAlarm: isScheduled && formData.fullScreenAlarm ? true : undefined,
+      sound: isScheduled ? formData.sound : undefined,
+      alarmVolume: isScheduled ? formData.alarmVolume : undefined,
+      createdAt: new Date().toISOString()
     };
 
     onAddMedicine(medicine);
@@ -96,6 +314,26 @@ export function MedicineForm({ onAddMedicine, onClose }: MedicineFormProps) {
     onClose();
   };
 
+  // Preview of the doses falling on the start date for interval schedules
+  const getIntervalPreview = () => {
+    const intervalHours = Number(formData.intervalHours);
+    if (!formData.anchorTime || !formData.startDate || !(intervalHours >= 1)) return [];
+
+    return getDosesForDay({
+      id: 'preview',
+      name: formData.name,
+      dosage: formData.dosage,
+      frequency: 'interval',
+      times: [],
+      intervalHours,
+      anchorTime: formData.anchorTime,
+      startDate: formData.startDate,
+      color: selectedColor
+    }, parseDateKey(formData.startDate)).map(dose => dose.time);
+  };
+
+  const intervalPreview = getIntervalPreview();
+
   return (
     <Card className="w-full">
       <CardContent className="p-4">
@@ -114,7 +352,7 @@ export function MedicineForm({ onAddMedicine, onClose }: MedicineFormProps) {
 
           {/* Dosage */}
           <div className="space-y-2">
-            <Label htmlFor="dosage">Dosage *</Label>
+            <Label htmlFor="dosage">{formData.frequency === 'tapering' ? 'Dosage (Optional)' : 'Dosage *'}</Label>
             <Input
               id="dosage"
               value={formData.dosage}
@@ -141,51 +379,563 @@ export function MedicineForm({ onAddMedicine, onClose }: MedicineFormProps) {
             </Select>
           </div>
 
+          {/* Interval */}
+          {formData.frequency === 'interval' && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="intervalHours">Every (hours) *</Label>
+                  <Input
+                    id="intervalHours"
+                    type="number"
+                    min={1}
+                    max={24}
+                    value={formData.intervalHours}
+                    onChange={(e) => setFormData(prev => ({ ...prev, intervalHours: e.target.value }))}
+                    className="h-12"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="anchorTime">First Dose At *</Label>
+                  <Input
+                    id="anchorTime"
+                    type="time"
+                    value={formData.anchorTime}
+                    onChange={(e) => setFormData(prev => ({ ...prev, anchorTime: e.target.value }))}
+                    className="h-12"
+                  />
+                </div>
+              </div>
+              {intervalPreview.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Doses on the start date: {intervalPreview.join(', ')}. Later doses continue every {formData.intervalHours} hours, including overnight.
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* As-Needed Limits */}
+          {formData.frequency === 'as-needed' && (
+            <div className="space-y-3">
+              <Label>Safety Limits (Optional)</Label>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="prnMinIntervalHours" className="text-xs text-muted-foreground">Min. hours between doses</Label>
+                  <Input
+                    id="prnMinIntervalHours"
+                    type="number"
+                    min={0}
+                    step="0.5"
+                    value={formData.prnMinIntervalHours}
+                    onChange={(e) => setFormData(prev => ({ ...prev, prnMinIntervalHours: e.target.value }))}
+                    placeholder="e.g., 4"
+                    className="h-12"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="prnMaxDosesPer24h" className="text-xs text-muted-foreground">Max. doses per 24h</Label>
+                  <Input
+                    id="prnMaxDosesPer24h"
+                    type="number"
+                    min={1}
+                    value={formData.prnMaxDosesPer24h}
+                    onChange={(e) => setFormData(prev => ({ ...prev, prnMaxDosesPer24h: e.target.value }))}
+                    placeholder="e.g., 3"
+                    className="h-12"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="prnAmountPerDose" className="text-xs text-muted-foreground">Amount per dose</Label>
+                  <Input
+                    id="prnAmountPerDose"
+                    type="number"
+                    min={0}
+                    value={formData.prnAmountPerDose}
+                    onChange={(e) => setFormData(prev => ({ ...prev, prnAmountPerDose: e.target.value }))}
+                    placeholder="e.g., 400"
+                    className="h-12"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="prnMaxAmountPer24h" className="text-xs text-muted-foreground">Max. per 24h</Label>
+                  <Input
+                    id="prnMaxAmountPer24h"
+                    type="number"
+                    min={0}
+                    value={formData.prnMaxAmountPer24h}
+                    onChange={(e) => setFormData(prev => ({ ...prev, prnMaxAmountPer24h: e.target.value }))}
+                    placeholder="e.g., 1200"
+                    className="h-12"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="prnAmountUnit" className="text-xs text-muted-foreground">Unit</Label>
+                  <Input
+                    id="prnAmountUnit"
+                    value={formData.prnAmountUnit}
+                    onChange={(e) => setFormData(prev => ({ ...prev, prnAmountUnit: e.target.value }))}
+                    className="h-12"
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Tapering Plan */}
+          {formData.frequency === 'tapering' && (
+            <TaperingPlanEditor phases={phases} onChange={setPhases} />
+          )}
+
           {/* Times */}
-          {formData.frequency && formData.frequency !== 'as-needed' && (
+          {formData.frequency && !['as-needed', 'interval', 'tapering'].includes(formData.frequency) && (
             <div className="space-y-3">
               <Label>Medication Times *</Label>
               <div className="grid gap-3">
-                {times.map((time, index) => (
-                  <div key={index} className="flex items-center gap-2">
-                    <Label className="min-w-0 text-sm text-muted-foreground">
-                      Dose {index + 1}:
-                    </Label>
-                    <Input
-                      type="time"
-                      value={time}
-                      onChange={(e) => handleTimeChange(index, e.target.value)}
-                      className="h-12"
-                    />
-                  </div>
-                ))}
+                {times.map((time, index) => {
+                  const relative = timeAnchors[index];
+
+                  return (
+                    <div key={index} className="space-y-2">
+                      <div className="flex items-center gap-2">
+                        <Label className="min-w-0 text-sm text-muted-foreground">
+                          Dose {index + 1}:
+                        </Label>
+                        <Select
+                          value={relative?.anchor ?? 'clock'}
+                          onValueChange={(value: string) => handleTimeAnchorChange(
+                            index,
+                            value === 'clock' ? null : value as RoutineAnchor,
+                            relative?.offsetMinutes
+                          )}
+                        >
+                          <SelectTrigger className="h-12">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="clock">Clock Time</SelectItem>
+                            {ROUTINE_ANCHORS.map(anchor => (
+                              <SelectItem key={anchor.value} value={anchor.value}>
+                                {anchor.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {relative ? (
+                          <Select
+                            value={String(relative.offsetMinutes)}
+                            onValueChange={(value: string) => handleTimeAnchorChange(index, relative.anchor, Number(value))}
+                          >
+                            <SelectTrigger className="h-12">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {anchorOffsetOptions.map(offset => (
+                                <SelectItem key={offset} value={String(offset)}>
+                                  {offset === 0 ? 'At' : `${offset > 0 ? '+' : '−'}${Math.abs(offset)} min`}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <Input
+                            type="time"
+                            value={time}
+                            onChange={(e) => handleTimeChange(index, e.target.value)}
+                            className="h-12"
+                          />
+                        )}
+                      </div>
+                      {relative && (
+                        <p className="text-xs text-muted-foreground">
+                          {formatRelativeTime(relative)} • {resolveRelativeTime(relative, new Date())} today
+                        </p>
+                      )}
+                    </div>
+                  );
+                })}
               </div>
             </div>
           )}
 
-          {/* Dates */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {/* Reminder Timing */}
+          {formData.frequency && formData.frequency !== 'as-needed' && (
+            <div className="space-y-3">
+              <Label>Reminder Timing</Label>
+              <div className="grid grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="dueWindowMinutes" className="text-xs text-muted-foreground">Due window (± min)</Label>
+                  <Input
+                    id="dueWindowMinutes"
+                    type="number"
+                    min={0}
+                    value={formData.dueWindowMinutes}
+                    onChange={(e) => setFormData(prev => ({ ...prev, dueWindowMinutes: e.target.value }))}
+                    className="h-12"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="gracePeriodMinutes" className="text-xs text-muted-foreground">Grace period (min)</Label>
+                  <Input
+                    id="gracePeriodMinutes"
+                    type="number"
+                    min={0}
+                    value={formData.gracePeriodMinutes}
+                    onChange={(e) => setFormData(prev => ({ ...prev, gracePeriodMinutes: e.target.value }))}
+                    className="h-12"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="takeWithinHours" className="text-xs text-muted-foreground">Take late within (h)</Label>
+                  <Input
+                    id="takeWithinHours"
+                    type="number"
+                    min={0}
+                    step="0.5"
+                    value={formData.takeWithinHours}
+                    onChange={(e) => setFormData(prev => ({ ...prev, takeWithinHours: e.target.value }))}
+                    className="h-12"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Doses are overdue after the due window and logged as missed after the grace period.
+                A missed dose can still be taken within the late limit, otherwise skip it.
+              </p>
+            </div>
+          )}
+
+          {/* Own dose gap */}
+          {formData.frequency && formData.frequency !== 'as-needed' && formData.frequency !== 'interval' && (
             <div className="space-y-2">
-              <Label htmlFor="startDate">Start Date *</Label>
+              <Label htmlFor="minDoseGapHours">Minimum Hours Between Doses (Optional)</Label>
               <Input
-                id="startDate"
-                type="date"
-                value={formData.startDate}
-                onChange={(e) => setFormData(prev => ({ ...prev, startDate: e.target.value }))}
+                id="minDoseGapHours"
+                type="number"
+                min={0.5}
+                max={23.5}
+                step="0.5"
+                value={formData.minDoseGapHours}
+                onChange={(e) => setFormData(prev => ({ ...prev, minDoseGapHours: e.target.value }))}
+                placeholder="e.g. 4"
                 className="h-12"
               />
+              <p className="text-xs text-muted-foreground">
+                The schedule check flags doses of this medicine that are closer together than this
+              </p>
+            </div>
+          )}
+
+          {/* Spacing */}
+          {formData.frequency && formData.frequency !== 'as-needed' && scheduledMedicines.length > 0 && (
+            <div className="space-y-3">
+              <Label>Keep Apart From</Label>
+              {spacing.map((rule, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Select
+                    value={rule.medicineId}
+                    onValueChange={(medicineId: string) => handleSpacingChange(index, { medicineId })}
+                  >
+                    <SelectTrigger className="h-12">
+                      <SelectValue placeholder="Medicine" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {scheduledMedicines.map(med => (
+                        <SelectItem key={med.id} value={med.id}>
+                          {med.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={0.5}
+                    step="0.5"
+                    value={rule.hours || ''}
+                    onChange={(e) => handleSpacingChange(index, { hours: Number(e.target.value) })}
+                    className="h-12 w-24"
+                    aria-label="Hours apart"
+                  />
+                  <span className="text-sm text-muted-foreground">h</span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setSpacing(prev => prev.filter((_, i) => i !== index))}
+                    className="text-muted-foreground"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setSpacing(prev => [...prev, { medicineId: '', hours: 4 }])}
+                className="text-xs"
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Add Spacing Rule
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                E.g. levothyroxine and calcium should be taken at least 4 hours apart
+              </p>
             </div>
+          )}
+
+          {/* Travel */}
+          {formData.frequency && formData.frequency !== 'as-needed' && (
             <div className="space-y-2">
-              <Label htmlFor="endDate">End Date (Optional)</Label>
-              <Input
-                id="endDate"
-                type="date"
-                value={formData.endDate}
-                onChange={(e) => setFormData(prev => ({ ...prev, endDate: e.target.value }))}
-                className="h-12"
-              />
+              <Label htmlFor="travelPolicy">When Travelling</Label>
+              <Select
+                value={formData.travelPolicy}
+                onValueChange={(travelPolicy: string) => setFormData(prev => ({ ...prev, travelPolicy }))}
+              >
+                <SelectTrigger className="h-12">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">App default</SelectItem>
+                  {TRAVEL_POLICIES.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {TRAVEL_POLICIES.find(option => option.value === formData.travelPolicy)?.description
+                  ?? 'Follows the travel setting in Settings'}
+              </p>
             </div>
-          </div>
+          )}
+
+          {/* Escalation */}
+          {formData.frequency && formData.frequency !== 'as-needed' && (
+            <div className="space-y-2">
+              <Label htmlFor="escalation">If a Reminder Goes Unanswered</Label>
+              <Select
+                value={formData.escalation}
+                onValueChange={(escalation: string) => setFormData(prev => ({ ...prev, escalation }))}
+              >
+                <SelectTrigger className="h-12">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ESCALATION_LEVELS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {ESCALATION_LEVELS.find(option => option.value === formData.escalation)?.description}
+              </p>
+              <div className="flex items-center justify-between gap-3 pt-2">
+                <Label htmlFor="alertDuringQuietHours" className="text-sm">
+                  Ring during quiet hours
+                </Label>
+                <Switch
+                  id="alertDuringQuietHours"
+                  checked={formData.alertDuringQuietHours}
+                  onCheckedChange={(checked: boolean) => setFormData(prev => ({ ...prev, alertDuringQuietHours: checked }))}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                For critical medicines whose reminders must not be silenced at night
+              </p>
+              <div className="flex items-center justify-between gap-3 pt-2">
+                <Label htmlFor="fullScreenAlarm" className="text-sm">
+                  Full-screen alarm
+                </Label>
+                <Switch
+                  id="fullScreenAlarm"
+                  checked={formData.fullScreenAlarm}
+                  onCheckedChange={(checked: boolean) => setFormData(prev => ({ ...prev, fullScreenAlarm: checked }))}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Keeps the screen on and rings until you slide or hold to acknowledge, like an alarm clock
+              </p>
+              <div className="space-y-2 pt-2">
+                <Label htmlFor="sound">Reminder Sound</Label>
+                <SoundPicker
+                  id="sound"
+                  value={formData.sound}
+                  onChange={(sound) => setFormData(prev => ({ ...prev, sound }))}
+                  allowDefault
+                />
+              </div>
+              <div className="flex items-center justify-between gap-3 pt-2">
+                <Label htmlFor="alarmVolume" className="text-sm">
+                  Own alarm volume
+                </Label>
+                <Switch
+                  id="alarmVolume"
+                  checked={formData.alarmVolume !== undefined}
+                  onCheckedChange={(checked: boolean) => setFormData(prev => ({
+                    ...prev,
+                    alarmVolume: checked ? loadAlertSettings().volume : undefined
+                  }))}
+                />
+              </div>
+              {formData.alarmVolume !== undefined && (
+                <div className="flex items-center gap-3">
+                  <Slider
+                    min={5}
+                    max={100}
+                    step={5}
+                    value={[Math.round(formData.alarmVolume * 100)]}
+                    onValueChange={([volume]: number[]) => setFormData(prev => ({ ...prev, alarmVolume: volume / 100 }))}
+                    aria-label="Alarm volume"
+                  />
+                  <span className="text-xs text-muted-foreground tabular-nums w-10 text-right">
+                    {Math.round(formData.alarmVolume * 100)}%
+                  </span>
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Otherwise this medicine rings at the volume set in Settings
+              </p>
+            </div>
+          )}
+
+          {/* Recurrence */}
+          {formData.frequency && formData.frequency !== 'as-needed' && (
+            <div className="space-y-3">
+              <div className="space-y-2">
+                <Label htmlFor="recurrence">Repeat</Label>
+                <Select
+                  value={formData.recurrence}
+                  onValueChange={(recurrence: string) => setFormData(prev => ({ ...prev, recurrence: recurrence as Recurrence }))}
+                >
+                  <SelectTrigger className="h-12">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {recurrenceOptions.map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {formData.recurrence === 'weekdays' && (
+                <div className="flex gap-2 flex-wrap">
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <Button
+                      key={label}
+                      type="button"
+                      size="sm"
+                      variant={daysOfWeek.includes(day) ? 'default' : 'outline'}
+                      onClick={() => toggleDayOfWeek(day)}
+                      className="h-10 w-12 touch-target"
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+              )}
+
+              {formData.recurrence === 'every-n-days' && (
+                <div className="space-y-2">
+                  <Label htmlFor="everyNDays">Every (days)</Label>
+                  <Input
+                    id="everyNDays"
+                    type="number"
+                    min={2}
+                    value={formData.everyNDays}
+                    onChange={(e) => setFormData(prev => ({ ...prev, everyNDays: e.target.value }))}
+                    className="h-12"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Counted from the start date, so 2 means every other day.
+                  </p>
+                </div>
+              )}
+
+              {formData.recurrence === 'cycle' && (
+                <div className="space-y-3">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="cycleDaysOn">Days On</Label>
+                      <Input
+                        id="cycleDaysOn"
+                        type="number"
+                        min={1}
+                        value={formData.cycleDaysOn}
+                        onChange={(e) => setFormData(prev => ({ ...prev, cycleDaysOn: e.target.value }))}
+                        className="h-12"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="cycleDaysOff">Days Off</Label>
+                      <Input
+                        id="cycleDaysOff"
+                        type="number"
+                        min={1}
+                        value={formData.cycleDaysOff}
+                        onChange={(e) => setFormData(prev => ({ ...prev, cycleDaysOff: e.target.value }))}
+                        className="h-12"
+                      />
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between gap-3">
+                    <Label htmlFor="cyclePlacebo" className="text-sm">
+                      Take placebo pills on off days
+                    </Label>
+                    <Switch
+                      id="cyclePlacebo"
+                      checked={formData.cyclePlacebo}
+                      onCheckedChange={(checked: boolean) => setFormData(prev => ({ ...prev, cyclePlacebo: checked }))}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    The first cycle starts on the start date. Without placebo pills, reminders stay quiet on off days.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Dates */}
+          {formData.frequency !== 'tapering' && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="startDate">Start Date *</Label>
+                <Input
+                  id="startDate"
+                  type="date"
+                  value={formData.startDate}
+                  onChange={(e) => setFormData(prev => ({ ...prev, startDate: e.target.value }))}
+                  className="h-12"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="endDate">End Date (Optional)</Label>
+                <Input
+                  id="endDate"
+                  type="date"
+                  value={formData.endDate}
+                  min={formData.startDate}
+                  onChange={(e) => setFormData(prev => ({ ...prev, endDate: e.target.value }))}
+                  className="h-12"
+                  aria-invalid={endsBeforeStart}
+                  aria-describedby={endsBeforeStart ? 'endDate-error' : undefined}
+                />
+                {endsBeforeStart && (
+                  <p id="endDate-error" className="text-xs text-destructive">
+                    The course can't end before it starts
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
 
           {/* Color */}
           <div className="space-y-2">
@@ -1,20 +1,11 @@
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
-import { Pill, Bell, Moon, Sun, Menu } from 'lucide-react';
+import { Pill, Clock, Moon, Sun, Menu } from 'lucide-react';
 import { useState, useEffect } from 'react';
 import { motion } from 'motion/react';
-
-interface Medicine {
-  id: string;
-  name: string;
-  dosage: string;
-  frequency: string;
-  times: string[];
-  startDate: string;
-  endDate?: string;
-  notes?: string;
-  color: string;
-}
+import type { Medicine } from '../types/medicine';
+import { getCourseStatus, getDosesBetween } from '../utils/doseSchedule';
+import { NotificationCenter } from './NotificationCenter';
 
 interface MobileHeaderProps {
   medicines: Medicine[];
@@ -46,23 +37,13 @@ export function MobileHeader({ medicines, activeTab, className = '' }: MobileHea
 
   const getUpcomingCount = () => {
     const now = new Date();
-    const currentMinutes = now.getHours() * 60 + now.getMinutes();
-    let count = 0;
+    const from = new Date(now.getTime() + 1);
+    const to = new Date(now.getTime() + 120 * 60 * 1000 + 1);
 
-    medicines.forEach(medicine => {
-      if (medicine.frequency === 'as-needed') return;
-      
-      medicine.times.forEach(time => {
-        const [hours, minutes] = time.split(':').map(Number);
-        const medicineMinutes = hours * 60 + minutes;
-        
-        if (medicineMinutes > currentMinutes && medicineMinutes <= currentMinutes + 120) {
-          count++;
-        }
-      });
-    });
-
-    return count;
+    return medicines.reduce(
+      (total, medicine) => total + getDosesBetween(medicine, from, to).length,
+      0
+    );
   };
 
   const formatTime = (date: Date) => {
@@ -84,6 +65,7 @@ export function MobileHeader({ medicines, activeTab, className = '' }: MobileHea
   };
 
   const upcomingCount = getUpcomingCount();
+  const activeCount = medicines.filter(medicine => getCourseStatus(medicine, currentTime) === 'active').length;
 
   return (
     <div className={`sticky top-0 z-30 bg-background/95 backdrop-blur-sm border-b border-border safe-area-inset-top ${className}`}>
@@ -109,12 +91,14 @@ export function MobileHeader({ medicines, activeTab, className = '' }: MobileHea
                 animate={{ scale: 1 }}
                 className="flex items-center gap-1"
               >
-                <Bell className="h-4 w-4 text-primary" />
+                <Clock className="h-4 w-4 text-primary" />
                 <Badge variant="secondary" className="text-xs px-2 py-1">
                   {upcomingCount}
                 </Badge>
               </motion.div>
             )}
+
+            <NotificationCenter medicines={medicines} triggerClassName="h-9 w-9 p-0 touch-target" />
             
             <Button
               variant="ghost"
@@ -139,7 +123,7 @@ export function MobileHeader({ medicines, activeTab, className = '' }: MobileHea
             className="mt-3 flex items-center gap-4"
           >
             <div className="text-center">
-              <p className="text-xl font-bold">{medicines.length}</p>
+              <p className="text-xl font-bold">{activeCount}</p>
               <p className="text-xs text-muted-foreground">Active</p>
             </div>
             <div className="text-center">
@@ -1,80 +1,165 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Card, CardContent } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
-import { Bell, Clock, Pill, X, Volume2, VolumeX } from 'lucide-react';
+import { Input } from './ui/input';
+import { Checkbox } from './ui/checkbox';
+import { AlarmClock, Bell, BellOff, Clock, Pill, Speech, UserRound, X, Volume2, VolumeX } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 import { useSoundManager } from './SoundManager';
-
-interface Medicine {
-  id: string;
-  name: string;
-  dosage: string;
-  frequency: string;
-  times: string[];
-  startDate: string;
-  endDate?: string;
-  notes?: string;
-  color: string;
-}
+import { FullScreenAlarm } from './FullScreenAlarm';
+import type { AlertSettings, Medicine, MedicineLog } from '../types/medicine';
+import { groupDosesByTime, type DoseKind, type ScheduledDose } from '../utils/doseSchedule';
+import { getMaxSnoozeMinutes, getReminderDoses } from '../utils/doseTiming';
+import { getDoseReminderKey, getReminderState, storedReminderStates, updateReminderState } from '../utils/reminderState';
+import { useStoredValue } from '../utils/storedValue';
+import { ESCALATION_PROFILES, escalates, getAlertIntensity, getEscalationProfile, getNextAlert } from '../utils/escalation';
+import { alertCaregiver, getCaregiverSmsLink, loadCaregiver } from '../utils/caregiver';
+import { canNotify, showSystemReminders } from '../utils/systemNotifications';
+import { getAlertMode, getMedicineSound, getMedicineVolume, type AlertMode } from '../utils/alertSettings';
+import { recordReminderFired, recordReminderRepeat, recordReminderUnacknowledged } from '../utils/reminderHistory';
+import { isSpeechSupported, listenForCommand, loadVoiceSettings, speakReminders, stopSpeaking, type CommandListener } from '../utils/speech';
 
 interface NotificationAlertProps {
   medicines: Medicine[];
-  onTakeMedicine: (id: string, time: string) => void;
-  onDismiss: (id: string, time: string) => void;
+  medicineLog: MedicineLog[];
+  onTakeMedicine: (id: string, time: string, date: string) => void;
+  onSnooze: (id: string, time: string, date: string, minutes: number) => void;
+  onDismiss: (id: string, time: string, date: string) => void;
+  alertSettings: AlertSettings;
+  onAlertSettingsChange: (settings: AlertSettings) => void;
 }
 
+const SNOOZE_OPTIONS = [5, 10, 30];
+
 interface DueNotification {
+  dose: ScheduledDose;
   medicine: Medicine;
   time: string;
+  date: string;
+  localTime: string;
+  homeTime?: string;
+  dosage: string;
+  instruction?: string;
+  kind: DoseKind;
+  at: Date;
   id: string;
 }
 
-export function NotificationAlert({ medicines, onTakeMedicine, onDismiss }: NotificationAlertProps) {
+export function NotificationAlert({
+  medicines,
+  medicineLog,
+  onTakeMedicine,
+  onSnooze,
+  onDismiss,
+  alertSettings,
+  onAlertSettingsChange
+}: NotificationAlertProps) {
   const [dueNotifications, setDueNotifications] = useState<DueNotification[]>([]);
-  const [dismissedNotifications, setDismissedNotifications] = useState<string[]>([]);
-  const [soundEnabled, setSoundEnabled] = useState(true);
-  const [hasPlayedSound, setHasPlayedSound] = useState<string[]>([]);
-  const { playAlarmSound, playSuccessSound } = useSoundManager();
+  const reminderStates = useStoredValue(storedReminderStates);
+  const [takenNotifications, setTakenNotifications] = useState<DueNotification[]>([]);
+  const [customSnoozeId, setCustomSnoozeId] = useState<string | null>(null);
+  const [customSnoozeMinutes, setCustomSnoozeMinutes] = useState('15');
+  const { soundEnabled } = alertSettings;
+  const { playAlarmSound, stopAlarm, isAlarmPlaying, playSuccessSound } = useSoundManager();
+  const commandListener = useRef<CommandListener | null>(null);
+  const ringingFor = useRef<string[]>([]); // reminders the banner alarm is ringing for
 
   useEffect(() => {
     const checkForDueMedicines = () => {
       const now = new Date();
-      const currentMinutes = now.getHours() * 60 + now.getMinutes();
       const newDueNotifications: DueNotification[] = [];
 
+      // Show notification inside each medicine's due window, including doses from just before midnight,
+      // and bring snoozed ones back once their snooze is over
       medicines.forEach(medicine => {
-        if (medicine.frequency === 'as-needed') return;
-
-        medicine.times.forEach(time => {
-          const [hours, minutes] = time.split(':').map(Number);
-          const medicineMinutes = hours * 60 + minutes;
-          const timeDiff = Math.abs(currentMinutes - medicineMinutes);
-          
-          // Show notification within 5 minutes of scheduled time
-          if (timeDiff <= 5) {
-            const notificationId = `${medicine.id}-${time}`;
-            if (!dismissedNotifications.includes(notificationId)) {
-              newDueNotifications.push({
-                medicine,
-                time,
-                id: notificationId
-              });
-            }
-          }
+        getReminderDoses(medicine, medicineLog, now).forEach(dose => {
+          newDueNotifications.push({
+            dose,
+            medicine,
+            time: dose.time,
+            date: dose.date,
+            localTime: dose.localTime,
+            homeTime: dose.homeTime,
+            dosage: dose.dosage,
+            instruction: dose.instruction,
+            kind: dose.kind,
+            at: dose.at,
+            id: getDoseReminderKey(dose)
+          });
         });
       });
 
       setDueNotifications(newDueNotifications);
+      // A repeating alarm stops once the doses it rings for are answered elsewhere, e.g. from the medicine list
+      if (ringingFor.current.length > 0 && !newDueNotifications.some(n => ringingFor.current.includes(n.id))) {
+        ringingFor.current = [];
+        stopAlarm();
+      }
+      // Ticked doses only stay on screen while others from their time slot are still due
+      setTakenNotifications(prev => prev.filter(taken =>
+        newDueNotifications.some(n => n.at.getTime() === taken.at.getTime())
+      ));
+
+      // Play alarm sound for new notifications and again, louder, for escalating ones nobody has answered,
+      // remembering each alarm so a reload stays quiet
+      const steps = newDueNotifications.flatMap(n => {
+        const step = getNextAlert(getReminderState(n.id), getEscalationProfile(n.medicine), now);
+        return step ? [{ notification: n, step }] : [];
+      });
+      if (steps.length === 0) return;
+
+      const alarms: { notification: DueNotification; count: number }[] = [];
+      steps.forEach(({ notification, step }) => {
+        if (step.type === 'alarm') {
+          alarms.push({ notification, count: step.count });
+          updateReminderState(notification.id, {
+            alertedAt: now.toISOString(),
+            alertCount: step.count,
+            unacknowledgedAt: undefined,
+            acknowledgedAt: undefined
+          });
+          if (step.count === 1) {
+            recordReminderFired(notification.dose, now);
+          } else {
+            recordReminderRepeat(notification.dose, step.count);
+          }
+        } else {
+          updateReminderState(notification.id, { unacknowledgedAt: now.toISOString() });
+          recordReminderUnacknowledged(notification.dose);
+          if (getEscalationProfile(notification.medicine).alertCaregiver) {
+            notifyCaregiver(notification);
+          }
+        }
+      });
 
-      // Play alarm sound for new notifications
-      if (soundEnabled && newDueNotifications.length > 0) {
-        const newNotificationIds = newDueNotifications.map(n => n.id);
-        const hasNewNotifications = newNotificationIds.some(id => !hasPlayedSound.includes(id));
-        
-        if (hasNewNotifications) {
-          playAlarmSound();
-          setHasPlayedSound(prev => [...prev, ...newNotificationIds]);
+      if (alarms.length > 0) {
+        // The banner covers a visible page; otherwise the same reminders go out as system notifications
+        if (document.visibilityState === 'hidden' && canNotify()) {
+          showSystemReminders(alarms.map(({ notification }) => notification.dose));
+        } else {
+          // Quiet hours turn alarms down to vibration or nothing, except for medicines that override them.
+          // Full-screen alarms loop their own sound.
+          const bannerAlarms = alarms.filter(({ notification }) => !notification.medicine.fullScreenAlarm);
+          const modes = bannerAlarms.map(({ notification }) => getAlertMode(notification.medicine, now));
+          const loudest = bannerAlarms.reduce((max, alarm) => {
+            const intensity = getAlertIntensity(alarm.count, getEscalationProfile(alarm.notification.medicine));
+            return intensity.volume > max.volume ? intensity : max;
+          }, getAlertIntensity(1, ESCALATION_PROFILES.none));
+          // Each medicine can have its own sound; the first one allowed to ring is played
+          const ringing = bannerAlarms.find((_, index) => modes[index] === 'sound');
+          if (ringing) {
+            const spoken = bannerAlarms.filter((_, index) => modes[index] === 'sound').map(({ notification }) => notification);
+            const { medicine } = ringing.notification;
+            ringingFor.current = spoken.map(notification => notification.id);
+            playAlarmSound(loudest.volume, getMedicineSound(medicine), getMedicineVolume(medicine))
+              .then(finished => {
+                if (finished && loadVoiceSettings().enabled) announceReminders(spoken);
+              });
+          }
+          if (modes.some(mode => mode !== 'silent') && 'vibrate' in navigator) {
+            navigator.vibrate(loudest.vibration);
+          }
         }
       }
     };
@@ -86,43 +171,246 @@ export function NotificationAlert({ medicines, onTakeMedicine, onDismiss }: Noti
     const interval = setInterval(checkForDueMedicines, 60000);
 
     return () => clearInterval(interval);
-  }, [medicines, dismissedNotifications, soundEnabled, hasPlayedSound, playAlarmSound]);
+  }, [medicines, medicineLog, reminderStates, alertSettings, playAlarmSound, stopAlarm]);
+
+  const notifyCaregiver = async (notification: DueNotification) => {
+    if (await alertCaregiver(notification.dose)) {
+      updateReminderState(notification.id, { caregiverAlertedAt: new Date().toISOString() });
+    }
+  };
+
+  const stopVoiceCommands = () => {
+    commandListener.current?.stop();
+    commandListener.current = null;
+  };
+
+  useEffect(() => () => {
+    stopSpeaking();
+    stopVoiceCommands();
+  }, []);
+
+  // Reads the doses aloud, then listens for "taken" or "snooze" when voice commands are on
+  const announceReminders = async (notifications: DueNotification[]) => {
+    const voice = loadVoiceSettings();
+    stopAlarm();
+    stopVoiceCommands();
+    await speakReminders(notifications.map(n => n.dose), voice);
+    if (!voice.listenForCommands) return;
+
+    const listener = listenForCommand(voice.lang);
+    commandListener.current = listener;
+    const command = await listener.command;
+    // Answering on screen while listening stops the listener, so the dose is not handled twice
+    if (commandListener.current !== listener) return;
+    commandListener.current = null;
+
+    if (command?.type === 'take') {
+      handleTakeAll(notifications);
+    } else if (command?.type === 'snooze') {
+      // A spoken snooze is shortened to end while the doses can still be taken
+      const minutes = Math.min(command.minutes, getMaxSnoozeMinutes(notifications.map(notification => notification.dose)));
+      if (minutes > 0) handleSnooze(notifications, minutes);
+    }
+  };
 
   const handleTakeMedicine = (notification: DueNotification) => {
-    onTakeMedicine(notification.medicine.id, notification.time);
-    setDismissedNotifications(prev => [...prev, notification.id]);
+    stopAlarm();
+    stopVoiceCommands();
+    onTakeMedicine(notification.medicine.id, notification.time, notification.date);
+    setTakenNotifications(prev => [...prev, notification]);
     
     // Play success sound and vibration
-    if (soundEnabled) {
-      playSuccessSound();
+    playSuccessSound();
+    if ('vibrate' in navigator) {
+      navigator.vibrate([100, 50, 100]);
     }
+  };
+
+  const handleTakeAll = (group: DueNotification[]) => {
+    stopAlarm();
+    stopVoiceCommands();
+    group.forEach(notification => onTakeMedicine(notification.medicine.id, notification.time, notification.date));
+    playSuccessSound();
     if ('vibrate' in navigator) {
       navigator.vibrate([100, 50, 100]);
     }
   };
 
   const handleDismiss = (notification: DueNotification) => {
-    onDismiss(notification.medicine.id, notification.time);
-    setDismissedNotifications(prev => [...prev, notification.id]);
+    stopAlarm();
+    stopVoiceCommands();
+    onDismiss(notification.medicine.id, notification.time, notification.date);
+    updateReminderState(notification.id, { dismissed: true });
   };
 
-  const handlePlayAlarmSound = () => {
-    if (soundEnabled) {
-      playAlarmSound();
+  const handleDismissAll = (group: DueNotification[]) => {
+    stopAlarm();
+    stopVoiceCommands();
+    group.forEach(notification => onDismiss(notification.medicine.id, notification.time, notification.date));
+    group.forEach(notification => updateReminderState(notification.id, { dismissed: true }));
+  };
+
+  const handleSnooze = (group: DueNotification[], minutes: number) => {
+    stopAlarm();
+    stopVoiceCommands();
+    group.forEach(notification => onSnooze(notification.medicine.id, notification.time, notification.date, minutes));
+    setCustomSnoozeId(null);
+  };
+
+  // Longer snoozes would end after the doses can no longer be taken, and the reminder would not come back
+  const isValidSnooze = (minutes: number, maxMinutes: number) => Number.isInteger(minutes) && minutes > 0 && minutes <= maxMinutes;
+
+  const handleCustomSnooze = (group: DueNotification[]) => {
+    const minutes = Number(customSnoozeMinutes);
+    if (isValidSnooze(minutes, getMaxSnoozeMinutes(group.map(notification => notification.dose)))) {
+      handleSnooze(group, minutes);
     }
+  };
+
+  const handleAcknowledge = (notifications: DueNotification[]) => {
+    const acknowledgedAt = new Date().toISOString();
+    notifications.forEach(notification => updateReminderState(notification.id, { acknowledgedAt }));
+    // The looping alarm would drown out the voice, so full-screen reminders are read once acknowledged
+    if (loadVoiceSettings().enabled) announceReminders(notifications);
+  };
+
+  // Stopping a ringing alarm moves straight on to reading the reminder when spoken reminders are on
+  const handleStopAlarm = (group: DueNotification[]) => {
+    stopAlarm();
+    if (loadVoiceSettings().enabled) announceReminders(group);
+  };
+
+  const handlePlayAlarmSound = () => {
+    ringingFor.current = dueNotifications.map(notification => notification.id);
+    playAlarmSound();
     if ('vibrate' in navigator) {
       navigator.vibrate([200, 100, 200, 100, 200]);
     }
   };
 
+  const renderCaregiverStatus = (notification: DueNotification) => {
+    const caregiver = loadCaregiver();
+    if (reminderStates[notification.id]?.caregiverAlertedAt) {
+      return (
+        <p className="text-xs text-muted-foreground flex items-center gap-1">
+          <UserRound className="h-3 w-3" />
+          {caregiver?.name ?? 'Your caregiver'} has been alerted
+        </p>
+      );
+    }
+    if (caregiver?.phone) {
+      return (
+        <Button variant="outline" size="sm" className="w-full" asChild>
+          <a href={getCaregiverSmsLink(caregiver, notification.dose)}>
+            <UserRound className="h-4 w-4 mr-2" />
+            Text {caregiver.name}
+          </a>
+        </Button>
+      );
+    }
+    return (
+      <p className="text-xs text-muted-foreground">
+        Add a caregiver in Settings so they hear about unacknowledged doses.
+      </p>
+    );
+  };
+
   if (dueNotifications.length === 0) {
     return null;
   }
 
+  // Doses due at the same time share one card; ones just taken stay ticked until the rest are done
+  const groups = groupDosesByTime(dueNotifications).map(pending => ({
+    id: `slot|${pending[0].at.getTime()}`,
+    pending,
+    taken: takenNotifications.filter(n => n.at.getTime() === pending[0].at.getTime()),
+    maxSnoozeMinutes: getMaxSnoozeMinutes(pending.map(n => n.dose))
+  }));
+
+  const renderItem = (notification: DueNotification, isTaken: boolean) => {
+    const state = reminderStates[notification.id];
+    return (
+      <div key={notification.id} className="space-y-2">
+        <div className="flex items-center gap-3">
+          <Checkbox
+            checked={isTaken}
+            disabled={isTaken}
+            onCheckedChange={() => handleTakeMedicine(notification)}
+            aria-label={`Take ${notification.medicine.name}`}
+          />
+          <div
+            className="w-4 h-4 rounded-full shrink-0"
+            style={{ backgroundColor: notification.medicine.color }}
+          />
+          <div className="flex-1 min-w-0">
+            <p className={`font-medium ${isTaken ? 'line-through text-muted-foreground' : ''}`}>
+              {notification.medicine.name}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {notification.dosage}
+              {notification.instruction && ` • ${notification.instruction}`}
+            </p>
+          </div>
+          {notification.kind === 'placebo' && (
+            <Badge variant="secondary" className="text-xs">
+              Placebo
+            </Badge>
+          )}
+          {!isTaken && state?.unacknowledgedAt && (
+            <Badge variant="destructive" className="text-xs">
+              Unacknowledged
+            </Badge>
+          )}
+          {!isTaken && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleDismiss(notification)}
+              className="h-8 px-2 text-muted-foreground"
+            >
+              Skip
+            </Button>
+          )}
+        </div>
+
+        {!isTaken && state?.unacknowledgedAt
+          && getEscalationProfile(notification.medicine).alertCaregiver
+          && renderCaregiverStatus(notification)}
+
+        {!isTaken && notification.medicine.notes && (
+          <p className="text-xs text-muted-foreground bg-secondary/50 p-2 rounded">
+            {notification.medicine.notes}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  // Critical doses take over the screen until acknowledged, one time slot at a time
+  const [fullScreenGroup] = groupDosesByTime(
+    dueNotifications.filter(n => n.medicine.fullScreenAlarm && !reminderStates[n.id]?.acknowledgedAt)
+  );
+  const getFullScreenMode = (group: DueNotification[]): AlertMode => {
+    const modes = group.map(n => getAlertMode(n.medicine));
+    if (modes.includes('sound')) return 'sound';
+    return modes.includes('vibrate') ? 'vibrate' : 'silent';
+  };
+
   return (
-    <div className="fixed top-4 left-4 right-4 z-50 space-y-2">
-      {/* Sound Toggle */}
-      {dueNotifications.length > 0 && (
+    <>
+      <AnimatePresence>
+        {fullScreenGroup && (
+          <FullScreenAlarm
+            key={fullScreenGroup[0].at.getTime()}
+            doses={fullScreenGroup.map(n => n.dose)}
+            mode={getFullScreenMode(fullScreenGroup)}
+            onAcknowledge={() => handleAcknowledge(fullScreenGroup)}
+          />
+        )}
+      </AnimatePresence>
+
+      <div className="fixed top-4 left-4 right-4 z-50 space-y-2 max-h-[calc(100vh-2rem)] overflow-y-auto">
+        {/* Sound Toggle */}
         <motion.div
           initial={{ opacity: 0, scale: 0.95 }}
           animate={{ opacity: 1, scale: 1 }}
@@ -131,7 +419,10 @@ export function NotificationAlert({ medicines, onTakeMedicine, onDismiss }: Noti
           <Button
             variant="outline"
             size="sm"
-            onClick={() => setSoundEnabled(!soundEnabled)}
+            onClick={() => {
+              if (soundEnabled) stopAlarm();
+              onAlertSettingsChange({ ...alertSettings, soundEnabled: !soundEnabled });
+            }}
             className="bg-background/80 backdrop-blur-sm"
           >
             {soundEnabled ? (
@@ -142,111 +433,185 @@ export function NotificationAlert({ medicines, onTakeMedicine, onDismiss }: Noti
             {soundEnabled ? 'Sound On' : 'Sound Off'}
           </Button>
         </motion.div>
-      )}
       
-      <AnimatePresence>
-        {dueNotifications.map((notification) => (
-          <motion.div
-            key={notification.id}
-            initial={{ opacity: 0, y: -50, scale: 0.95 }}
-            animate={{ opacity: 1, y: 0, scale: 1 }}
-            exit={{ opacity: 0, y: -50, scale: 0.95 }}
-            transition={{ duration: 0.3 }}
-          >
-            <Card className="border-primary shadow-lg bg-primary/5 backdrop-blur-sm">
-              <CardContent className="p-4">
-                <div className="flex items-start justify-between mb-3">
-                  <div className="flex items-center gap-3">
-                    <motion.div
-                      animate={{ 
-                        scale: [1, 1.2, 1],
-                        rotate: [0, 10, -10, 0]
-                      }}
-                      transition={{ 
-                        duration: 1,
-                        repeat: Infinity,
-                        repeatType: "reverse"
-                      }}
-                    >
-                      <Bell className="h-6 w-6 text-primary" />
-                    </motion.div>
-                    <div>
-                      <h3 className="font-semibold text-primary">Medicine Reminder</h3>
-                      <p className="text-sm text-muted-foreground">Time to take your medication</p>
+        <AnimatePresence>
+          {groups.map(({ id, pending, taken, maxSnoozeMinutes }) => (
+            <motion.div
+              key={id}
+              initial={{ opacity: 0, y: -50, scale: 0.95 }}
+              animate={{ opacity: 1, y: 0, scale: 1 }}
+              exit={{ opacity: 0, y: -50, scale: 0.95 }}
+              transition={{ duration: 0.3 }}
+            >
+              <Card className="border-primary shadow-lg bg-primary/5 backdrop-blur-sm">
+                <CardContent className="p-4">
+                  <div className="flex items-start justify-between mb-3">
+                    <div className="flex items-center gap-3">
+                      <motion.div
+                        animate={{ 
+                          scale: [1, 1.2, 1],
+                          rotate: [0, 10, -10, 0]
+                        }}
+                        transition={{ 
+                          duration: 1,
+                          repeat: Infinity,
+                          repeatType: "reverse"
+                        }}
+                      >
+                        <Bell className="h-6 w-6 text-primary" />
+                      </motion.div>
+                      <div>
+                        <h3 className="font-semibold text-primary">Medicine Reminder</h3>
+                        <p className="text-sm text-muted-foreground">
+                          {pending.length + taken.length > 1
+                            ? `${pending.length + taken.length} medicines to take together`
+                            : 'Time to take your medication'}
+                        </p>
+                      </div>
                     </div>
-                  </div>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => handleDismiss(notification)}
-                    className="text-muted-foreground hover:text-foreground"
-                  >
-                    <X className="h-4 w-4" />
-                  </Button>
-                </div>
-
-                <div className="space-y-3">
-                  <div className="flex items-center gap-3">
-                    <div 
-                      className="w-4 h-4 rounded-full"
-                      style={{ backgroundColor: notification.medicine.color }}
-                    />
-                    <div>
-                      <p className="font-medium">{notification.medicine.name}</p>
-                      <p className="text-sm text-muted-foreground">{notification.medicine.dosage}</p>
-                    </div>
-                  </div>
-
-                  <div className="flex items-center gap-2">
-                    <Clock className="h-4 w-4 text-muted-foreground" />
-                    <span className="text-sm">Scheduled for {notification.time}</span>
-                    <Badge variant="destructive" className="text-xs">
-                      Due Now
-                    </Badge>
-                  </div>
-
-                  {notification.medicine.notes && (
-                    <p className="text-xs text-muted-foreground bg-secondary/50 p-2 rounded">
-                      {notification.medicine.notes}
-                    </p>
-                  )}
-
-                  <div className="flex gap-2 pt-2">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handleDismiss(notification)}
-                      className="flex-1"
-                    >
-                      Dismiss
-                    </Button>
                     <Button
+                      variant="ghost"
                       size="sm"
-                      onClick={() => handleTakeMedicine(notification)}
-                      className="flex-1"
+                      onClick={() => handleDismissAll(pending)}
+                      className="text-muted-foreground hover:text-foreground"
                     >
-                      <Pill className="h-4 w-4 mr-2" />
-                      Mark as Taken
+                      <X className="h-4 w-4" />
                     </Button>
                   </div>
 
-                  <div className="flex justify-center pt-2">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={handlePlayAlarmSound}
-                      className="text-xs"
-                    >
-                      <Volume2 className="h-3 w-3 mr-1" />
-                      Play Alarm
-                    </Button>
+                  <div className="space-y-3">
+                    <div className="flex items-center gap-2">
+                      <Clock className="h-4 w-4 text-muted-foreground" />
+                      <span className="text-sm">
+                        Scheduled for {pending[0].localTime}
+                        {pending[0].homeTime && ` (${pending[0].homeTime} home)`}
+                      </span>
+                      <Badge variant="destructive" className="text-xs">
+                        Due Now
+                      </Badge>
+                    </div>
+
+                    <div className="space-y-3">
+                      {taken.map(notification => renderItem(notification, true))}
+                      {pending.map(notification => renderItem(notification, false))}
+                    </div>
+
+                    <div className="flex gap-2 pt-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDismissAll(pending)}
+                        className="flex-1"
+                      >
+                        Dismiss
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => handleTakeAll(pending)}
+                        className="flex-1"
+                      >
+                        <Pill className="h-4 w-4 mr-2" />
+                        {pending.length > 1 ? 'Take All' : 'Mark as Taken'}
+                      </Button>
+                    </div>
+
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <AlarmClock className="h-4 w-4 text-muted-foreground" />
+                      <span className="text-sm text-muted-foreground">Snooze</span>
+                      {SNOOZE_OPTIONS.map(minutes => (
+                        <Button
+                          key={minutes}
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleSnooze(pending, minutes)}
+                          disabled={minutes > maxSnoozeMinutes}
+                          className="h-8 px-3"
+                        >
+                          {minutes}m
+                        </Button>
+                      ))}
+                      <Button
+                        variant={customSnoozeId === id ? 'secondary' : 'outline'}
+                        size="sm"
+                        onClick={() => setCustomSnoozeId(customSnoozeId === id ? null : id)}
+                        className="h-8 px-3"
+                      >
+                        Custom
+                      </Button>
+                    </div>
+
+                    {customSnoozeId === id && (
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <Input
+                            type="number"
+                            min={1}
+                            max={maxSnoozeMinutes}
+                            value={customSnoozeMinutes}
+                            onChange={(e) => setCustomSnoozeMinutes(e.target.value)}
+                            className="h-9 w-24"
+                            aria-label="Snooze minutes"
+                            aria-describedby={`${id}-snooze-limit`}
+                          />
+                          <span className="text-sm text-muted-foreground">min</span>
+                          <Button
+                            size="sm"
+                            onClick={() => handleCustomSnooze(pending)}
+                            disabled={!isValidSnooze(Number(customSnoozeMinutes), maxSnoozeMinutes)}
+                            className="h-9"
+                          >
+                            Snooze
+                          </Button>
+                        </div>
+                        <p id={`${id}-snooze-limit`} className="text-xs text-muted-foreground">
+                          {maxSnoozeMinutes > 0
+                            ? `Up to ${maxSnoozeMinutes} min, while ${pending.length > 1 ? 'these doses' : 'this dose'} can still be taken`
+                            : `Too late to snooze; ${pending.length > 1 ? 'these doses' : 'this dose'} can no longer be taken after now`}
+                        </p>
+                      </div>
+                    )}
+
+                    <div className="flex justify-center gap-2 pt-2">
+                      {isAlarmPlaying ? (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleStopAlarm(pending)}
+                          className="text-xs"
+                        >
+                          <BellOff className="h-3 w-3 mr-1" />
+                          Stop Alarm
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={handlePlayAlarmSound}
+                          className="text-xs"
+                        >
+                          <Volume2 className="h-3 w-3 mr-1" />
+                          Play Alarm
+                        </Button>
+                      )}
+                      {isSpeechSupported() && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => announceReminders(pending)}
+                          className="text-xs"
+                        >
+                          <Speech className="h-3 w-3 mr-1" />
+                          Read Aloud
+                        </Button>
+                      )}
+                    </div>
                   </div>
-                </div>
-              </CardContent>
-            </Card>
-          </motion.div>
-        ))}
-      </AnimatePresence>
-    </div>
+                </CardContent>
+              </Card>
+            </motion.div>
+          ))}
+        </AnimatePresence>
+      </div>
+    </>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from './ui/sheet';
+import { Bell, Inbox } from 'lucide-react';
+import type { Medicine, ReminderRecord } from '../types/medicine';
+import { toDateKey } from '../utils/doseSchedule';
+import {
+  getReminderOutcome,
+  getResponseMinutes,
+  storedReminderHistory,
+  type ReminderOutcome
+} from '../utils/reminderHistory';
+import { useStoredValue } from '../utils/storedValue';
+
+interface NotificationCenterProps {
+  medicines: Medicine[];
+  triggerClassName?: string;
+}
+
+const OUTCOME_LABELS: Record<ReminderOutcome, string> = {
+  taken: 'Taken',
+  snoozed: 'Snoozed',
+  dismissed: 'Dismissed',
+  ignored: 'Ignored',
+  open: 'Waiting'
+};
+
+const getOutcomeVariant = (outcome: ReminderOutcome) => {
+  switch (outcome) {
+    case 'taken': return 'secondary';
+    case 'ignored': return 'destructive';
+    default: return 'outline';
+  }
+};
+
+const formatResponseTime = (minutes: number) => {
+  if (minutes < 1) return 'within a minute';
+  if (minutes < 60) return `after ${minutes} min`;
+  return `after ${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+export function NotificationCenter({ medicines, triggerClassName = 'h-8 w-8 p-0' }: NotificationCenterProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [medicineFilter, setMedicineFilter] = useState('all');
+  const [dateFilter, setDateFilter] = useState('');
+
+  const now = new Date();
+  const history = useStoredValue(storedReminderHistory);
+  const today = toDateKey(now);
+  const firedOn = (record: ReminderRecord) => toDateKey(new Date(record.firedAt));
+
+  const ignoredToday = history.filter(record =>
+    firedOn(record) === today && getReminderOutcome(record, medicines, now) === 'ignored'
+  ).length;
+
+  // Medicines that have reminders, including ones deleted since
+  const historyMedicines = [...new Map(history.map(record => [record.medicineId, record.medicineName])).entries()];
+
+  const records = history
+    .filter(record => medicineFilter === 'all' || record.medicineId === medicineFilter)
+    .filter(record => !dateFilter || firedOn(record) === dateFilter)
+    .reverse();
+
+  const responseTimes = records.map(getResponseMinutes).filter((minutes): minutes is number => minutes !== null);
+  const averageResponse = responseTimes.length > 0
+    ? Math.round(responseTimes.reduce((sum, minutes) => sum + minutes, 0) / responseTimes.length)
+    : null;
+
+  const formatFiredAt = (record: ReminderRecord) => {
+    const firedAt = new Date(record.firedAt);
+    const time = firedAt.toTimeString().slice(0, 5);
+    return firedOn(record) === today
+      ? time
+      : `${firedAt.toLocaleDateString([], { month: 'short', day: 'numeric' })}, ${time}`;
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={setIsOpen}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="sm" className={`relative ${triggerClassName}`} aria-label="Reminder inbox">
+          <Bell className="h-4 w-4" />
+          {ignoredToday > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-destructive text-white text-[10px] leading-4">
+              {ignoredToday}
+            </span>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Reminders</SheetTitle>
+          <SheetDescription>Every reminder that fired and what happened to it</SheetDescription>
+        </SheetHeader>
+
+        <div className="px-4 grid grid-cols-2 gap-2">
+          <Select value={medicineFilter} onValueChange={(value: string) => setMedicineFilter(value)}>
+            <SelectTrigger className="h-10" aria-label="Filter by medicine">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All medicines</SelectItem>
+              {historyMedicines.map(([id, name]) => (
+                <SelectItem key={id} value={id}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="date"
+            value={dateFilter}
+            max={today}
+            onChange={(e) => setDateFilter(e.target.value)}
+            className="h-10"
+            aria-label="Filter by date"
+          />
+        </div>
+
+        <div className="px-4 flex items-center justify-between text-xs text-muted-foreground">
+          <span>{records.length} reminder{records.length === 1 ? '' : 's'}</span>
+          {averageResponse !== null && <span>Average response {formatResponseTime(averageResponse)}</span>}
+          {(medicineFilter !== 'all' || dateFilter) && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs"
+              onClick={() => {
+                setMedicineFilter('all');
+                setDateFilter('');
+              }}
+            >
+              Clear filters
+            </Button>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-4 pb-4 space-y-2">
+          {records.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <Inbox className="h-10 w-10 mx-auto mb-3 opacity-50" />
+              <p className="text-sm">No reminders yet</p>
+            </div>
+          ) : (
+            records.map(record => {
+              const outcome = getReminderOutcome(record, medicines, now);
+              const responseMinutes = getResponseMinutes(record);
+              const medicine = medicines.find(med => med.id === record.medicineId);
+
+              return (
+                <div key={record.id} className="flex items-start gap-3 p-3 rounded-lg bg-secondary/50">
+                  <div
+                    className="w-3 h-3 rounded-full mt-1.5 shrink-0"
+                    style={{ backgroundColor: medicine?.color ?? 'var(--muted-foreground)' }}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="font-medium text-sm truncate">{record.medicineName}</p>
+                      <Badge variant={getOutcomeVariant(outcome)} className="text-xs shrink-0">
+                        {OUTCOME_LABELS[outcome]}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {record.dosage} • {record.localTime} dose • fired {formatFiredAt(record)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {responseMinutes !== null && `Answered ${formatResponseTime(responseMinutes)}`}
+                      {record.alarms > 1 && `${responseMinutes !== null ? ' • ' : ''}${record.alarms} alarms`}
+                      {record.unacknowledged && ' • Unacknowledged'}
+                    </p>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { Card, CardContent } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { BellRing } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { isPushRelayConfigured } from '../utils/pushRelay';
+import {
+  getNotificationPermission,
+  requestNotificationPermission,
+  sendTestNotification,
+  supportsNotificationTriggers
+} from '../utils/systemNotifications';
+
+// Whether reminders reach the device on time once the app is closed
+const getBackgroundNote = () => {
+  if (isPushRelayConfigured()) {
+    return 'Reminders come through the push relay, so they arrive on time even when the app is closed.';
+  }
+  if (supportsNotificationTriggers()) {
+    return 'This browser shows reminders at dose time even when the app is closed.';
+  }
+  return 'Reminders arrive on time while the app is open. Once it is closed, this browser needs the push relay to deliver them; without it they can come late or not at all.';
+};
+
+export function NotificationSettings() {
+  const [permission, setPermission] = useState(getNotificationPermission);
+
+  const handleEnable = async () => {
+    const result = await requestNotificationPermission();
+    setPermission(result);
+    if (result === 'granted') {
+      toast.success('Notifications enabled');
+    } else if (result === 'denied') {
+      toast.error('Notifications are blocked');
+    }
+  };
+
+  const handleTest = async () => {
+    await sendTestNotification();
+    toast('Test notification sent');
+  };
+
+  const getStatusBadge = () => {
+    switch (permission) {
+      case 'granted': return <Badge variant="secondary" className="text-xs">On</Badge>;
+      case 'denied': return <Badge variant="destructive" className="text-xs">Blocked</Badge>;
+      case 'unsupported': return <Badge variant="outline" className="text-xs">Unavailable</Badge>;
+      default: return <Badge variant="outline" className="text-xs">Off</Badge>;
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <BellRing className="h-5 w-5 text-primary" />
+            <div>
+              <h3 className="font-medium">System Notifications</h3>
+              <p className="text-xs text-muted-foreground">
+                Reminders with Take and Snooze buttons outside the app
+              </p>
+            </div>
+          </div>
+          {getStatusBadge()}
+        </div>
+
+        {(permission === 'default' || permission === 'granted') && (
+          <p className="text-xs text-muted-foreground">{getBackgroundNote()}</p>
+        )}
+
+        {permission === 'default' && (
+          <div className="space-y-2">
+            <ol className="text-xs text-muted-foreground list-decimal pl-4 space-y-1">
+              <li>Tap the button below and allow notifications when your browser asks.</li>
+              <li>Send a test notification to check that it arrives.</li>
+              <li>On phones, install the app to the home screen for the most reliable reminders.</li>
+            </ol>
+            <Button className="w-full" onClick={handleEnable}>
+              Enable Notifications
+            </Button>
+          </div>
+        )}
+
+        {permission === 'granted' && (
+          <Button variant="outline" className="w-full" onClick={handleTest}>
+            Send Test Notification
+          </Button>
+        )}
+
+        {permission === 'denied' && (
+          <p className="text-xs text-muted-foreground">
+            Notifications are blocked for this site. Allow them in your browser's site settings, then reload the app.
+          </p>
+        )}
+
+        {permission === 'unsupported' && (
+          <p className="text-xs text-muted-foreground">
+            This browser cannot show system notifications. Reminders still appear while the app is open.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
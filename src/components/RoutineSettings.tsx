@@ -0,0 +1,72 @@
+import { Card, CardContent } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Sun } from 'lucide-react';
+import type { Routine, RoutineAnchor, RoutineProfile } from '../types/medicine';
+import { ROUTINE_ANCHORS } from '../utils/routine';
+
+interface RoutineSettingsProps {
+  routine: RoutineProfile;
+  onChange: (routine: RoutineProfile) => void;
+}
+
+export function RoutineSettings({ routine, onChange }: RoutineSettingsProps) {
+  const handleTimeChange = (day: 'weekday' | 'weekend', anchor: RoutineAnchor, time: string) => {
+    if (!time) return;
+    const current = routine[day] ?? routine.weekday;
+    onChange({ ...routine, [day]: { ...current, [anchor]: time } });
+  };
+
+  const handleWeekendToggle = (enabled: boolean) => {
+    onChange({ weekday: routine.weekday, weekend: enabled ? { ...routine.weekday } : undefined });
+  };
+
+  const renderTimes = (day: 'weekday' | 'weekend', times: Routine) => (
+    <div className="grid grid-cols-2 gap-3">
+      {ROUTINE_ANCHORS.map(anchor => (
+        <div key={anchor.value} className="space-y-1">
+          <Label htmlFor={`${day}-${anchor.value}`} className="text-xs text-muted-foreground">
+            {anchor.label}
+          </Label>
+          <Input
+            id={`${day}-${anchor.value}`}
+            type="time"
+            value={times[anchor.value]}
+            onChange={(e) => handleTimeChange(day, anchor.value, e.target.value)}
+            className="h-10"
+          />
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-center gap-2">
+          <Sun className="h-5 w-5 text-primary" />
+          <div>
+            <h3 className="font-medium">Daily Routine</h3>
+            <p className="text-xs text-muted-foreground">
+              Doses linked to meals or sleep move with these times
+            </p>
+          </div>
+        </div>
+
+        {renderTimes('weekday', routine.weekday)}
+
+        <div className="flex items-center justify-between gap-3 pt-2 border-t">
+          <Label htmlFor="weekend-routine" className="text-sm">Different routine on weekends</Label>
+          <Switch
+            id="weekend-routine"
+            checked={!!routine.weekend}
+            onCheckedChange={handleWeekendToggle}
+          />
+        </div>
+
+        {routine.weekend && renderTimes('weekend', routine.weekend)}
+      </CardContent>
+    </Card>
+  );
+}
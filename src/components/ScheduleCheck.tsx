@@ -0,0 +1,89 @@
+import { useMemo } from 'react';
+import { Card, CardContent } from './ui/card';
+import { Button } from './ui/button';
+import { AlertTriangle, ArrowRight, Lock } from 'lucide-react';
+import type { Medicine } from '../types/medicine';
+import { describeConflict, findScheduleConflicts, FIXED_REASONS, suggestTimetable } from '../utils/scheduleConflicts';
+import type { TimetableChange } from '../utils/scheduleConflicts';
+import { formatRelativeTime, storedRoutine } from '../utils/routine';
+import { toDateKey } from '../utils/doseSchedule';
+import { useStoredValue } from '../utils/storedValue';
+
+interface ScheduleCheckProps {
+  medicines: Medicine[];
+  onApply: (changes: TimetableChange[]) => void;
+}
+
+// Anchored times are shown by their anchor, since the suggestion leaves them where they are
+const formatTimes = (medicine: Medicine, times: string[]) => times.map((time, index) => {
+  const relative = medicine.timeAnchors?.[index];
+  return relative ? `${formatRelativeTime(relative)} (fixed)` : time;
+}).join(', ');
+
+export function ScheduleCheck({ medicines, onApply }: ScheduleCheckProps) {
+  const routine = useStoredValue(storedRoutine);
+  const today = toDateKey(new Date());
+
+  // Both scan up to a year of days, so only redo them when the medicines, the routine or the day change
+  const conflicts = useMemo(() => findScheduleConflicts(medicines), [medicines, routine, today]);
+  const suggestion = useMemo(
+    () => conflicts.length > 0 ? suggestTimetable(medicines) : null,
+    [conflicts, medicines, routine, today]
+  );
+
+  if (conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="border-orange-300 bg-orange-50 dark:bg-orange-950/20">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-orange-500" />
+          <h3 className="font-medium">Schedule Check</h3>
+        </div>
+
+        <ul className="space-y-2 text-sm">
+          {conflicts.map((conflict, index) => (
+            <li key={index}>
+              {describeConflict(conflict)}
+              {[conflict.first, conflict.second].map((dose, side) => dose.fixed && (
+                <span key={side} className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <Lock className="h-3 w-3" />
+                  {dose.medicine.name} at {dose.time} {FIXED_REASONS[dose.fixed]} and can't be moved here
+                </span>
+              ))}
+            </li>
+          ))}
+        </ul>
+
+        {suggestion ? (
+          <div className="space-y-2 pt-2 border-t">
+            <p className="text-sm font-medium">Suggested times</p>
+            {suggestion.map(change => (
+              <div key={change.medicine.id} className="flex items-center gap-2 text-sm">
+                <div
+                  className="w-3 h-3 rounded-full flex-shrink-0"
+                  style={{ backgroundColor: change.medicine.color }}
+                />
+                <span className="font-medium">{change.medicine.name}</span>
+                <span className="text-muted-foreground">{formatTimes(change.medicine, change.medicine.times)}</span>
+                <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                <span>{formatTimes(change.medicine, change.times)}</span>
+              </div>
+            ))}
+            <Button size="sm" className="w-full" onClick={() => onApply(suggestion)}>
+              Use Suggested Times
+            </Button>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            No timetable fits every rule within your waking hours. Adjust the times by hand.
+            {conflicts.some(conflict => conflict.first.fixed || conflict.second.fixed) &&
+              ' Locked doses can only be changed through your routine or the medicine\'s schedule.'}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
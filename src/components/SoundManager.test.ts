@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SoundManager } from './SoundManager';
+import { DEFAULT_SOUND } from '../utils/sounds';
+
+// Just enough of Web Audio for tones: sources end when their stop time passes, or at once when stopped early
+class FakeParam {
+  value = 1;
+  setValueAtTime() {}
+  linearRampToValueAtTime() {}
+  exponentialRampToValueAtTime() {}
+}
+
+class FakeNode {
+  connect() {}
+  disconnect() {}
+}
+
+class FakeOscillator extends FakeNode {
+  frequency = new FakeParam();
+  type = 'sine';
+  onended: (() => void) | null = null;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  constructor(private context: FakeAudioContext) {
+    super();
+  }
+  start() {}
+  stop(when?: number) {
+    clearTimeout(this.timer);
+    const delay = when === undefined ? 0 : (when - this.context.currentTime) * 1000;
+    this.timer = setTimeout(() => this.onended?.(), delay);
+  }
+}
+
+class FakeAudioContext {
+  state = 'running';
+  destination = new FakeNode();
+  get currentTime() {
+    return Date.now() / 1000;
+  }
+  createOscillator() {
+    return new FakeOscillator(this);
+  }
+  createGain() {
+    return Object.assign(new FakeNode(), { gain: new FakeParam() });
+  }
+}
+
+describe('SoundManager', () => {
+  const fullScreen = {};
+  const banner = {};
+  let manager: SoundManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', { AudioContext: FakeAudioContext });
+    manager = new SoundManager();
+  });
+
+  afterEach(() => {
+    manager.stopSound();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('rings a looping alarm again once an alarm that cut in has played', async () => {
+    manager.startAlarmLoop(1, DEFAULT_SOUND, { owner: fullScreen });
+    await vi.advanceTimersByTimeAsync(100);
+    expect(manager.isPlayingFor(fullScreen)).toBe(true);
+
+    const bannerAlarm = manager.playAlarmSound(1, DEFAULT_SOUND, { owner: banner });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(manager.isPlayingFor(banner)).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(await bannerAlarm).toBe(true);
+    expect(manager.isPlayingFor(fullScreen)).toBe(true);
+  });
+
+  it('rings a looping alarm again when an alarm that cut in is stopped', async () => {
+    manager.startAlarmLoop(1, DEFAULT_SOUND, { owner: fullScreen });
+    await vi.advanceTimersByTimeAsync(100);
+    manager.playAlarmSound(1, DEFAULT_SOUND, { owner: banner, repeat: 'until-acknowledged' });
+    await vi.advanceTimersByTimeAsync(100);
+
+    manager.stopSound(banner);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(manager.isPlayingFor(fullScreen)).toBe(true);
+  });
+
+  it('only lets the owner stop an alarm', async () => {
+    manager.startAlarmLoop(1, DEFAULT_SOUND, { owner: fullScreen });
+    await vi.advanceTimersByTimeAsync(100);
+
+    manager.stopSound(banner);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(manager.isPlayingFor(fullScreen)).toBe(true);
+
+    manager.stopSound(fullScreen);
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(manager.isPlaying).toBe(false);
+  });
+});
@@ -1,12 +1,32 @@
-import { useRef, useCallback } from 'react';
+import { useRef, useCallback, useEffect, useSyncExternalStore } from 'react';
+import type { AlarmRepeat, SoundChoice } from '../types/medicine';
+import { loadAlertSettings } from '../utils/alertSettings';
+import { getCustomSound } from '../utils/customSounds';
+import { DEFAULT_SOUND, getTone, parseSound } from '../utils/sounds';
+
+const ALARM_REPEAT_GAP_MS = 800;
+const CUSTOM_SOUND_VOLUME = 0.5;
+const MAX_CUSTOM_SOUND_SECONDS = 10;
+const CRESCENDO_START = 0.1; // share of the full volume a crescendo starts from
+const CRESCENDO_LOOP_SECONDS = 30;
+
+export interface AlarmPlayback {
+  volume?: number; // 0-1, applied on top of the escalation intensity
+  crescendo?: boolean;
+  repeat?: AlarmRepeat;
+  owner?: object; // who started it; only they can stop it
+}
 
 export class SoundManager {
   private audioContext: AudioContext | null = null;
   private isInitialized = false;
-
-  constructor() {
-    this.initializeAudioContext();
-  }
+  private customBuffers = new Map<string, AudioBuffer>();
+  private sources = new Set<AudioScheduledSourceNode>();
+  private output: GainNode | null = null; // volume of the alarm playing now
+  private playback = 0; // bumped on stop, so a running alarm ends before its next note
+  private owner: object | undefined; // of the alarm playing now
+  private loops = new Map<object, object>(); // owner of each loop that rings again when another alarm is done
+  private changes = new EventTarget();
 
   private initializeAudioContext() {
     try {
@@ -16,7 +36,9 @@ export class SoundManager {
     }
   }
 
+  // The audio context is created on the first sound rather than when the app loads
   async initialize() {
+    if (!this.audioContext) this.initializeAudioContext();
     if (this.isInitialized || !this.audioContext) return;
 
     try {
@@ -29,7 +51,34 @@ export class SoundManager {
     }
   }
 
-  private createBeepTone(frequency: number, duration: number, volume: number = 0.3): Promise<void> {
+  get isPlaying() {
+    return this.output !== null;
+  }
+
+  isPlayingFor(owner: object) {
+    return this.isPlaying && this.owner === owner;
+  }
+
+  // Called when an alarm starts or stops playing
+  onPlayingChange = (listener: () => void) => {
+    this.changes.addEventListener('change', listener);
+    return () => this.changes.removeEventListener('change', listener);
+  };
+
+  private setOutput(output: GainNode | null) {
+    if (output === this.output) return;
+    this.output?.disconnect();
+    this.output = output;
+    this.changes.dispatchEvent(new Event('change'));
+  }
+
+  private createBeepTone(
+    frequency: number,
+    duration: number,
+    volume: number = 0.3,
+    wave: OscillatorType = 'sine',
+    destination: AudioNode | null = null
+  ): Promise<void> {
     return new Promise((resolve) => {
       if (!this.audioContext) {
         resolve();
@@ -40,101 +89,294 @@ export class SoundManager {
       const gainNode = this.audioContext.createGain();
 
       oscillator.connect(gainNode);
-      gainNode.connect(this.audioContext.destination);
+      gainNode.connect(destination ?? this.audioContext.destination);
 
       oscillator.frequency.setValueAtTime(frequency, this.audioContext.currentTime);
-      oscillator.type = 'sine';
+      oscillator.type = wave;
 
       gainNode.gain.setValueAtTime(0, this.audioContext.currentTime);
       gainNode.gain.linearRampToValueAtTime(volume, this.audioContext.currentTime + 0.01);
       gainNode.gain.exponentialRampToValueAtTime(0.001, this.audioContext.currentTime + duration);
 
+      // Alarm notes can be stopped; chimes always finish
+      if (destination) this.sources.add(oscillator);
       oscillator.start(this.audioContext.currentTime);
       oscillator.stop(this.audioContext.currentTime + duration);
 
-      oscillator.onended = () => resolve();
+      oscillator.onended = () => {
+        this.sources.delete(oscillator);
+        resolve();
+      };
     });
   }
 
-  async playAlarmSound() {
+  private async loadCustomBuffer(id: string): Promise<AudioBuffer | null> {
+    if (!this.audioContext) return null;
+
+    const cached = this.customBuffers.get(id);
+    if (cached) return cached;
+
+    const sound = await getCustomSound(id);
+    if (!sound) return null;
+    const buffer = await this.audioContext.decodeAudioData(await sound.data.arrayBuffer());
+    this.customBuffers.set(id, buffer);
+    return buffer;
+  }
+
+  // Plays an uploaded sound, cut off after a few seconds; false if it is gone or unreadable
+  private async playCustomSound(id: string, intensity: number, destination: AudioNode): Promise<boolean> {
+    const buffer = await this.loadCustomBuffer(id).catch(() => null);
+    if (!buffer || !this.audioContext) return false;
+
+    const source = this.audioContext.createBufferSource();
+    const gainNode = this.audioContext.createGain();
+    source.buffer = buffer;
+    gainNode.gain.value = Math.min(CUSTOM_SOUND_VOLUME * intensity, 1);
+    source.connect(gainNode);
+    gainNode.connect(destination);
+
+    this.sources.add(source);
+    await new Promise<void>(resolve => {
+      source.onended = () => resolve();
+      source.start();
+      source.stop(this.audioContext!.currentTime + Math.min(buffer.duration, MAX_CUSTOM_SOUND_SECONDS));
+    });
+    this.sources.delete(source);
+    return true;
+  }
+
+  // How long one play of the sound lasts, to spread a crescendo over the repeats
+  private async getSoundSeconds(sound: SoundChoice) {
+    const { kind, id } = parseSound(sound);
+    if (kind === 'custom') {
+      const buffer = await this.loadCustomBuffer(id).catch(() => null);
+      if (buffer) return Math.min(buffer.duration, MAX_CUSTOM_SOUND_SECONDS);
+    }
+    const tone = getTone(kind === 'tone' ? id : parseSound(DEFAULT_SOUND).id);
+    return tone.notes.reduce((total, note) => total + note.duration + (note.pause ?? 0) / 1000, 0);
+  }
+
+  // One play of a generated tone or uploaded sound, abandoned as soon as its playback is stopped
+  private async playOnce(sound: SoundChoice, intensity: number, destination: AudioNode, playback: number) {
+    const { kind, id } = parseSound(sound);
+    if (kind === 'custom' && await this.playCustomSound(id, intensity, destination)) return;
+
+    // Missing uploads fall back to the classic alarm
+    const tone = getTone(kind === 'tone' ? id : parseSound(DEFAULT_SOUND).id);
+    for (const note of tone.notes) {
+      if (this.playback !== playback) return;
+      await this.createBeepTone(note.frequency, note.duration, Math.min(note.volume * intensity, 1), note.wave, destination);
+      if (note.pause) {
+        await new Promise(resolve => setTimeout(resolve, note.pause));
+      }
+    }
+  }
+
+  // Intensity scales the notes, e.g. for escalating reminders. Replaces any alarm already playing
+  // and resolves true once every repeat has played, or false when stopped or replaced first.
+  async playAlarmSound(
+    intensity: number = 1,
+    sound: SoundChoice = DEFAULT_SOUND,
+    { volume = 1, crescendo = false, repeat = 1, owner }: AlarmPlayback = {}
+  ): Promise<boolean> {
     if (!this.isInitialized) {
       await this.initialize();
     }
+    if (!this.audioContext) return false;
+
+    this.stopPlayback();
+    const playback = this.playback;
+    const context = this.audioContext;
+    const output = context.createGain();
+    output.connect(context.destination);
+    this.owner = owner;
+    this.setOutput(output);
+    const times = repeat === 'until-acknowledged' ? Infinity : Math.max(repeat, 1);
 
     try {
-      // Play a series of beeps to create an alarm pattern
-      await this.createBeepTone(800, 0.3, 0.4); // First beep
-      await new Promise(resolve => setTimeout(resolve, 100));
-      await this.createBeepTone(800, 0.3, 0.4); // Second beep
-      await new Promise(resolve => setTimeout(resolve, 100));
-      await this.createBeepTone(1000, 0.5, 0.5); // Higher pitch beep
+      if (crescendo) {
+        // Full volume by the last repeat, or halfway through a single play
+        const seconds = await this.getSoundSeconds(sound);
+        const rampSeconds = times === Infinity
+          ? CRESCENDO_LOOP_SECONDS
+          : Math.max((times - 1) * (seconds + ALARM_REPEAT_GAP_MS / 1000), seconds / 2);
+        output.gain.setValueAtTime(volume * CRESCENDO_START, context.currentTime);
+        output.gain.linearRampToValueAtTime(volume, context.currentTime + rampSeconds);
+      } else {
+        output.gain.value = volume;
+      }
+
+      for (let played = 0; played < times && this.playback === playback; played++) {
+        if (played > 0) {
+          await new Promise(resolve => setTimeout(resolve, ALARM_REPEAT_GAP_MS));
+        }
+        if (this.playback !== playback) break;
+        await this.playOnce(sound, intensity, output, playback);
+      }
     } catch (error) {
       console.warn('Failed to play alarm sound:', error);
     }
+
+    const finished = this.playback === playback;
+    if (finished) {
+      this.setOutput(null);
+    }
+    return finished;
+  }
+
+  // Repeats the alarm until its owner stops it, like an alarm clock. Another alarm can cut in,
+  // and the loop rings again once that one is done.
+  async startAlarmLoop(intensity: number = 1, sound: SoundChoice = DEFAULT_SOUND, options: AlarmPlayback = {}) {
+    const owner = options.owner ?? {};
+    const loop = {};
+    this.loops.set(loop, owner);
+
+    while (this.loops.has(loop)) {
+      const finished = await this.playAlarmSound(intensity, sound, { ...options, owner, repeat: 'until-acknowledged' });
+      // Only a failure ends an endless loop on its own
+      if (finished || !this.audioContext) break;
+      await this.waitUntilQuiet();
+    }
+    this.loops.delete(loop);
+  }
+
+  private waitUntilQuiet() {
+    return new Promise<void>(resolve => {
+      if (!this.isPlaying) {
+        resolve();
+        return;
+      }
+      const unsubscribe = this.onPlayingChange(() => {
+        if (this.isPlaying) return;
+        unsubscribe();
+        resolve();
+      });
+    });
+  }
+
+  private stopPlayback() {
+    this.playback++;
+    this.sources.forEach(source => source.stop());
+    this.sources.clear();
+    this.owner = undefined;
+    this.setOutput(null);
   }
 
-  async playSuccessSound() {
+  // Cuts off the given owner's alarm, including its repeats and loop; without an owner, whatever is playing
+  stopSound(owner?: object) {
+    this.loops.forEach((loopOwner, loop) => {
+      if (!owner || loopOwner === owner) this.loops.delete(loop);
+    });
+    if (owner && this.owner !== owner) return;
+    this.stopPlayback();
+  }
+
+  async playSuccessSound(volume: number = 1) {
     if (!this.isInitialized) {
       await this.initialize();
     }
 
     try {
       // Play a pleasant success sound
-      await this.createBeepTone(523, 0.2, 0.3); // C note
+      await this.createBeepTone(523, 0.2, 0.3 * volume); // C note
       await new Promise(resolve => setTimeout(resolve, 50));
-      await this.createBeepTone(659, 0.2, 0.3); // E note
+      await this.createBeepTone(659, 0.2, 0.3 * volume); // E note
       await new Promise(resolve => setTimeout(resolve, 50));
-      await this.createBeepTone(784, 0.3, 0.3); // G note
+      await this.createBeepTone(784, 0.3, 0.3 * volume); // G note
     } catch (error) {
       console.warn('Failed to play success sound:', error);
     }
   }
 
-  async playReminderSound() {
+  async playReminderSound(volume: number = 1) {
     if (!this.isInitialized) {
       await this.initialize();
     }
 
     try {
       // Play a gentle reminder sound
-      await this.createBeepTone(600, 0.4, 0.3);
+      await this.createBeepTone(600, 0.4, 0.3 * volume);
       await new Promise(resolve => setTimeout(resolve, 200));
-      await this.createBeepTone(800, 0.4, 0.3);
+      await this.createBeepTone(800, 0.4, 0.3 * volume);
     } catch (error) {
       console.warn('Failed to play reminder sound:', error);
     }
   }
 }
 
-// Hook for using sound manager
+// One for the whole app, so there is a single audio context and one alarm plays at a time.
+// Each component can only stop the alarms it started itself.
+let sharedSoundManager: SoundManager | null = null;
+
+export const getSoundManager = () => {
+  if (!sharedSoundManager) {
+    sharedSoundManager = new SoundManager();
+  }
+  return sharedSoundManager;
+};
+
+// Hook for using sound manager; stays quiet while sound is turned off in Settings
 export function useSoundManager() {
-  const soundManagerRef = useRef<SoundManager | null>(null);
+  const owner = useRef({}).current;
+  const isAlarmPlaying = useSyncExternalStore(getSoundManager().onPlayingChange, () => getSoundManager().isPlayingFor(owner));
 
-  const initializeSoundManager = useCallback(() => {
-    if (!soundManagerRef.current) {
-      soundManagerRef.current = new SoundManager();
-    }
-    return soundManagerRef.current;
-  }, []);
+  // Nothing this component started keeps ringing after it is gone
+  useEffect(() => () => getSoundManager().stopSound(owner), [owner]);
 
-  const playAlarmSound = useCallback(async () => {
-    const soundManager = initializeSoundManager();
-    await soundManager.playAlarmSound();
-  }, [initializeSoundManager]);
+  // Without a sound or volume, alarms use the ones from Settings, along with its crescendo and repeat choices.
+  // Resolves true once the alarm has played out, false if it was stopped or could not play.
+  const playAlarmSound = useCallback(async (intensity?: number, sound?: SoundChoice, volume?: number) => {
+    const settings = loadAlertSettings();
+    if (!settings.soundEnabled) return false;
+    const soundManager = getSoundManager();
+    return soundManager.playAlarmSound(intensity, sound ?? settings.defaultSound, {
+      volume: volume ?? settings.volume,
+      crescendo: settings.crescendo,
+      repeat: settings.repeat,
+      owner
+    });
+  }, [owner]);
+
+  const startAlarmLoop = useCallback(async (intensity?: number, sound?: SoundChoice, volume?: number) => {
+    const settings = loadAlertSettings();
+    if (!settings.soundEnabled) return;
+    const soundManager = getSoundManager();
+    await soundManager.startAlarmLoop(intensity, sound ?? settings.defaultSound, {
+      volume: volume ?? settings.volume,
+      crescendo: settings.crescendo,
+      owner
+    });
+  }, [owner]);
+
+  const stopAlarm = useCallback(() => getSoundManager().stopSound(owner), [owner]);
+
+  // Plays once, even with sounds turned off, since the user asked to hear it
+  const previewSound = useCallback(async (sound: SoundChoice, volume?: number) => {
+    const soundManager = getSoundManager();
+    await soundManager.playAlarmSound(1, sound, { volume: volume ?? loadAlertSettings().volume, owner });
+  }, [owner]);
 
   const playSuccessSound = useCallback(async () => {
-    const soundManager = initializeSoundManager();
-    await soundManager.playSuccessSound();
-  }, [initializeSoundManager]);
+    const settings = loadAlertSettings();
+    if (!settings.soundEnabled) return;
+    const soundManager = getSoundManager();
+    await soundManager.playSuccessSound(settings.volume);
+  }, []);
 
   const playReminderSound = useCallback(async () => {
-    const soundManager = initializeSoundManager();
-    await soundManager.playReminderSound();
-  }, [initializeSoundManager]);
+    const settings = loadAlertSettings();
+    if (!settings.soundEnabled) return;
+    const soundManager = getSoundManager();
+    await soundManager.playReminderSound(settings.volume);
+  }, []);
 
   return {
     playAlarmSound,
+    startAlarmLoop,
+    stopAlarm,
+    isAlarmPlaying,
+    previewSound,
     playSuccessSound,
     playReminderSound
   };
-}
\ No newline at end of file
+}
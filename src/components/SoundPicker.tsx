@@ -0,0 +1,120 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from './ui/select';
+import { Play, Upload } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { useSoundManager } from './SoundManager';
+import type { SoundChoice } from '../types/medicine';
+import { storedAlertSettings } from '../utils/alertSettings';
+import { addCustomSound, listCustomSounds, onCustomSoundsChange, type CustomSound } from '../utils/customSounds';
+import { customSound, parseSound, toneSound, TONES } from '../utils/sounds';
+import { useStoredValue } from '../utils/storedValue';
+
+const DEFAULT_VALUE = 'default';
+
+interface SoundPickerProps {
+  id?: string;
+  value?: SoundChoice; // missing means the default sound, when allowDefault is set
+  onChange: (sound: SoundChoice | undefined) => void;
+  allowDefault?: boolean;
+}
+
+// Keeps the list of uploaded sounds current across every picker on screen
+export function useCustomSounds() {
+  const [sounds, setSounds] = useState<CustomSound[]>([]);
+
+  useEffect(() => {
+    const refresh = () => listCustomSounds().then(setSounds);
+    refresh();
+    return onCustomSoundsChange(refresh);
+  }, []);
+
+  return sounds;
+}
+
+export const getSoundLabel = (sound: SoundChoice, customSounds: CustomSound[]) => {
+  const { kind, id } = parseSound(sound);
+  if (kind === 'custom') return customSounds.find(custom => custom.id === id)?.name ?? 'Missing sound';
+  return TONES.find(tone => tone.id === id)?.label ?? TONES[0].label;
+};
+
+export function SoundPicker({ id, value, onChange, allowDefault = false }: SoundPickerProps) {
+  const customSounds = useCustomSounds();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { previewSound } = useSoundManager();
+
+  const { defaultSound } = useStoredValue(storedAlertSettings);
+  const selected = value ?? (allowDefault ? DEFAULT_VALUE : defaultSound);
+
+  const handleUpload = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const sound = await addCustomSound(file);
+      onChange(customSound(sound.id));
+      toast.success(`Added "${sound.name}"`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not add that sound');
+    }
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Select
+        value={selected}
+        onValueChange={(sound: string) => onChange(sound === DEFAULT_VALUE ? undefined : sound)}
+      >
+        <SelectTrigger id={id} className="h-12 flex-1">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {allowDefault && (
+            <SelectItem value={DEFAULT_VALUE}>
+              Default ({getSoundLabel(defaultSound, customSounds)})
+            </SelectItem>
+          )}
+          <SelectGroup>
+            <SelectLabel>Tones</SelectLabel>
+            {TONES.map(tone => (
+              <SelectItem key={tone.id} value={toneSound(tone.id)}>{tone.label}</SelectItem>
+            ))}
+          </SelectGroup>
+          {customSounds.length > 0 && (
+            <SelectGroup>
+              <SelectLabel>Your sounds</SelectLabel>
+              {customSounds.map(sound => (
+                <SelectItem key={sound.id} value={customSound(sound.id)}>{sound.name}</SelectItem>
+              ))}
+            </SelectGroup>
+          )}
+        </SelectContent>
+      </Select>
+
+      <Button
+        type="button"
+        variant="outline"
+        className="h-12 w-12 p-0"
+        onClick={() => previewSound(selected === DEFAULT_VALUE ? defaultSound : selected)}
+        aria-label="Preview sound"
+      >
+        <Play className="h-4 w-4" />
+      </Button>
+      <Button
+        type="button"
+        variant="outline"
+        className="h-12 w-12 p-0"
+        onClick={() => fileInput.current?.click()}
+        aria-label="Upload a sound"
+      >
+        <Upload className="h-4 w-4" />
+      </Button>
+      <input
+        ref={fileInput}
+        type="file"
+        accept="audio/*"
+        className="hidden"
+        onChange={(e) => handleUpload(e.target.files?.[0])}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import { Button } from './ui/button';
+import { Card, CardContent } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Slider } from './ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Moon, Music, Repeat, Trash2, Volume1, Volume2 } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { SoundPicker, useCustomSounds } from './SoundPicker';
+import { useSoundManager } from './SoundManager';
+import type { AlarmRepeat, AlertSettings, QuietHours, QuietMode } from '../types/medicine';
+import { ALARM_REPEAT_OPTIONS, isQuietTime } from '../utils/alertSettings';
+import { deleteCustomSound, type CustomSound } from '../utils/customSounds';
+import { customSound, DEFAULT_SOUND } from '../utils/sounds';
+
+interface SoundSettingsProps {
+  settings: AlertSettings;
+  onChange: (settings: AlertSettings) => void;
+}
+
+export function SoundSettings({ settings, onChange }: SoundSettingsProps) {
+  const { quietHours } = settings;
+  const customSounds = useCustomSounds();
+  const { previewSound } = useSoundManager();
+
+  const handleQuietHoursChange = (update: Partial<QuietHours>) => {
+    onChange({ ...settings, quietHours: { ...quietHours, ...update } });
+  };
+
+  // Medicines still pointing at a deleted sound fall back to the classic alarm
+  const handleDeleteSound = async (sound: CustomSound) => {
+    try {
+      await deleteCustomSound(sound.id);
+      if (settings.defaultSound === customSound(sound.id)) {
+        onChange({ ...settings, defaultSound: DEFAULT_SOUND });
+      }
+      toast.success(`Removed "${sound.name}"`);
+    } catch (error) {
+      console.error('Error deleting custom sound:', error);
+      toast.error('Could not remove that sound');
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <Volume2 className="h-5 w-5 text-primary" />
+            <div>
+              <h3 className="font-medium">Sounds</h3>
+              <p className="text-xs text-muted-foreground">
+                Alarms and confirmation sounds throughout the app
+              </p>
+            </div>
+          </div>
+          <Switch
+            checked={settings.soundEnabled}
+            onCheckedChange={(soundEnabled: boolean) => onChange({ ...settings, soundEnabled })}
+            aria-label="Sounds"
+          />
+        </div>
+
+        <div className="space-y-2 pt-2 border-t">
+          <div className="flex items-center gap-2">
+            <Music className="h-4 w-4 text-muted-foreground" />
+            <Label htmlFor="default-sound" className="text-sm">Alarm sound</Label>
+          </div>
+          <SoundPicker
+            id="default-sound"
+            value={settings.defaultSound}
+            onChange={(defaultSound) => onChange({ ...settings, defaultSound: defaultSound ?? DEFAULT_SOUND })}
+          />
+          <p className="text-xs text-muted-foreground">
+            Used for every medicine without its own sound. Uploads must be audio files under 2 MB.
+          </p>
+
+          {customSounds.length > 0 && (
+            <div className="space-y-1">
+              {customSounds.map(sound => (
+                <div key={sound.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate">{sound.name}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 text-muted-foreground"
+                    onClick={() => handleDeleteSound(sound)}
+                    aria-label={`Remove ${sound.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3 pt-2 border-t">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Volume1 className="h-4 w-4 text-muted-foreground" />
+                <Label htmlFor="alarm-volume" className="text-sm">Alarm volume</Label>
+              </div>
+              <span className="text-xs text-muted-foreground tabular-nums">{Math.round(settings.volume * 100)}%</span>
+            </div>
+            <Slider
+              id="alarm-volume"
+              min={5}
+              max={100}
+              step={5}
+              value={[Math.round(settings.volume * 100)]}
+              onValueChange={([volume]: number[]) => onChange({ ...settings, volume: volume / 100 })}
+              onValueCommit={([volume]: number[]) => previewSound(settings.defaultSound, volume / 100)}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <Label htmlFor="crescendo" className="text-sm">Gradually louder</Label>
+              <p className="text-xs text-muted-foreground">Alarms start softly and build up to full volume</p>
+            </div>
+            <Switch
+              id="crescendo"
+              checked={settings.crescendo}
+              onCheckedChange={(crescendo: boolean) => onChange({ ...settings, crescendo })}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <Repeat className="h-4 w-4 text-muted-foreground" />
+              <Label htmlFor="alarm-repeat" className="text-sm">Play alarm</Label>
+            </div>
+            <Select
+              value={String(settings.repeat)}
+              onValueChange={(repeat: string) => onChange({
+                ...settings,
+                repeat: repeat === 'until-acknowledged' ? repeat : Number(repeat) as AlarmRepeat
+              })}
+            >
+              <SelectTrigger id="alarm-repeat" className="h-10 w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ALARM_REPEAT_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            A playing alarm can always be stopped from the reminder. Full-screen alarms ring until acknowledged.
+          </p>
+        </div>
+
+        <div className="space-y-3 pt-2 border-t">
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <Moon className="h-4 w-4 text-muted-foreground" />
+              <Label htmlFor="quiet-hours" className="text-sm">Quiet hours</Label>
+            </div>
+            <Switch
+              id="quiet-hours"
+              checked={quietHours.enabled}
+              onCheckedChange={(enabled: boolean) => handleQuietHoursChange({ enabled })}
+            />
+          </div>
+
+          {quietHours.enabled && (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="quiet-start" className="text-xs text-muted-foreground">From</Label>
+                  <Input
+                    id="quiet-start"
+                    type="time"
+                    value={quietHours.start}
+                    onChange={(e) => e.target.value && handleQuietHoursChange({ start: e.target.value })}
+                    className="h-10"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="quiet-end" className="text-xs text-muted-foreground">Until</Label>
+                  <Input
+                    id="quiet-end"
+                    type="time"
+                    value={quietHours.end}
+                    onChange={(e) => e.target.value && handleQuietHoursChange({ end: e.target.value })}
+                    className="h-10"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="quiet-mode" className="text-xs text-muted-foreground">Reminders during quiet hours</Label>
+                <Select
+                  value={quietHours.mode}
+                  onValueChange={(mode: string) => handleQuietHoursChange({ mode: mode as QuietMode })}
+                >
+                  <SelectTrigger id="quiet-mode" className="h-10">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="vibrate">Vibrate only</SelectItem>
+                    <SelectItem value="silent">Silent</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                {isQuietTime(new Date(), settings) ? 'Quiet hours are on now. ' : ''}
+                Medicines set to ring during quiet hours still sound their alarm.
+              </p>
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
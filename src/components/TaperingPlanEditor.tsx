@@ -0,0 +1,138 @@
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Plus, Trash2, X } from 'lucide-react';
+import type { DosePhase } from '../types/medicine';
+import { addDays, parseDateKey, toDateKey } from '../utils/doseSchedule';
+
+interface TaperingPlanEditorProps {
+  phases: DosePhase[];
+  onChange: (phases: DosePhase[]) => void;
+}
+
+export function TaperingPlanEditor({ phases, onChange }: TaperingPlanEditorProps) {
+  const updatePhase = (index: number, changes: Partial<DosePhase>) => {
+    onChange(phases.map((phase, i) => (i === index ? { ...phase, ...changes } : phase)));
+  };
+
+  const handleAddPhase = () => {
+    const previous = phases[phases.length - 1];
+    // New phases start the day after the previous one ends and keep its times
+    const startDate = previous?.endDate
+      ? toDateKey(addDays(parseDateKey(previous.endDate), 1))
+      : previous?.startDate ?? toDateKey(new Date());
+
+    onChange([
+      ...phases,
+      { startDate, endDate: '', dosage: '', times: previous ? [...previous.times] : [''] }
+    ]);
+  };
+
+  const handleRemovePhase = (index: number) => {
+    onChange(phases.filter((_, i) => i !== index));
+  };
+
+  const handleTimeChange = (phaseIndex: number, timeIndex: number, time: string) => {
+    const times = [...phases[phaseIndex].times];
+    times[timeIndex] = time;
+    updatePhase(phaseIndex, { times });
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label>Plan Phases *</Label>
+      {phases.map((phase, index) => (
+        <div key={index} className="space-y-3 p-3 rounded-lg border">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium">Phase {index + 1}</p>
+            {phases.length > 1 && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRemovePhase(index)}
+                className="text-destructive hover:text-destructive hover:bg-destructive/10"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">From</Label>
+              <Input
+                type="date"
+                value={phase.startDate}
+                onChange={(e) => updatePhase(index, { startDate: e.target.value })}
+                className="h-12"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Until</Label>
+              <Input
+                type="date"
+                value={phase.endDate}
+                onChange={(e) => updatePhase(index, { endDate: e.target.value })}
+                className="h-12"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Dosage</Label>
+            <Input
+              value={phase.dosage}
+              onChange={(e) => updatePhase(index, { dosage: e.target.value })}
+              placeholder="e.g., 40mg"
+              className="h-12"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Times</Label>
+            {phase.times.map((time, timeIndex) => (
+              <div key={timeIndex} className="flex items-center gap-2">
+                <Input
+                  type="time"
+                  value={time}
+                  onChange={(e) => handleTimeChange(index, timeIndex, e.target.value)}
+                  className="h-12"
+                />
+                {phase.times.length > 1 && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updatePhase(index, { times: phase.times.filter((_, i) => i !== timeIndex) })}
+                    className="text-muted-foreground"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => updatePhase(index, { times: [...phase.times, ''] })}
+              className="text-xs"
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Add Time
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" onClick={handleAddPhase} className="w-full h-12 touch-target">
+        <Plus className="h-4 w-4 mr-2" />
+        Add Phase
+      </Button>
+      <p className="text-xs text-muted-foreground">
+        The plan ends on its own after the last phase.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { Card, CardContent } from './ui/card';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Plane } from 'lucide-react';
+import type { TravelPolicy, TravelSettings } from '../types/medicine';
+import { TRAVEL_POLICIES } from '../utils/travel';
+import { formatTimeInZone, formatZoneName, getDeviceTimeZone } from '../utils/timeZones';
+
+interface TravelModeSettingsProps {
+  settings: TravelSettings;
+  onChange: (settings: TravelSettings) => void;
+}
+
+export function TravelModeSettings({ settings, onChange }: TravelModeSettingsProps) {
+  const deviceZone = getDeviceTimeZone();
+  const isAway = deviceZone !== settings.homeZone;
+  const now = new Date();
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-center gap-2">
+          <Plane className="h-5 w-5 text-primary" />
+          <div>
+            <h3 className="font-medium">Travel</h3>
+            <p className="text-xs text-muted-foreground">
+              How dose times change when you are in another time zone
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          <div>
+            <p className="text-xs text-muted-foreground">Home</p>
+            <p className="font-medium">{formatZoneName(settings.homeZone)}</p>
+            <p className="text-xs text-muted-foreground">{formatTimeInZone(now, settings.homeZone)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Current</p>
+            <p className="font-medium">{formatZoneName(deviceZone)}</p>
+            <p className="text-xs text-muted-foreground">{formatTimeInZone(now, deviceZone)}</p>
+          </div>
+        </div>
+
+        {isAway && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            onClick={() => onChange({ ...settings, homeZone: deviceZone })}
+          >
+            Make {formatZoneName(deviceZone)} my home
+          </Button>
+        )}
+
+        <div className="space-y-2 pt-2 border-t">
+          <Label htmlFor="travel-policy" className="text-sm">Default for medicines</Label>
+          <Select
+            value={settings.defaultPolicy}
+            onValueChange={(policy: string) => onChange({ ...settings, defaultPolicy: policy as TravelPolicy })}
+          >
+            <SelectTrigger id="travel-policy" className="h-10">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRAVEL_POLICIES.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {TRAVEL_POLICIES.find(option => option.value === settings.defaultPolicy)?.description}
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
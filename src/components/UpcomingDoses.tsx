@@ -0,0 +1,103 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent } from './ui/card';
+import { Badge } from './ui/badge';
+import { Tabs, TabsList, TabsTrigger } from './ui/tabs';
+import { Calendar } from 'lucide-react';
+import { motion } from 'motion/react';
+import type { Medicine } from '../types/medicine';
+import { minutesBetween } from '../utils/doseSchedule';
+import { formatTimeUntil, getUpcomingDoses, groupDosesByDay, UPCOMING_HORIZONS } from '../utils/upcoming';
+import type { UpcomingHorizon } from '../utils/upcoming';
+
+interface UpcomingDosesProps {
+  medicines: Medicine[];
+}
+
+export function UpcomingDoses({ medicines }: UpcomingDosesProps) {
+  const [horizon, setHorizon] = useState<UpcomingHorizon>('24h');
+  const [currentTime, setCurrentTime] = useState(new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setCurrentTime(new Date()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const days = groupDosesByDay(getUpcomingDoses(medicines, currentTime, horizon), currentTime);
+  const horizonLabel = UPCOMING_HORIZONS.find(option => option.value === horizon)!.label;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold">Next Doses</h2>
+        <Tabs value={horizon} onValueChange={(value: string) => setHorizon(value as UpcomingHorizon)}>
+          <TabsList>
+            {UPCOMING_HORIZONS.map(option => (
+              <TabsTrigger key={option.value} value={option.value} className="px-3 text-xs">
+                {option.value}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {days.length === 0 ? (
+        <Card>
+          <CardContent className="p-6 text-center">
+            <Calendar className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No doses in the next {horizonLabel}</p>
+          </CardContent>
+        </Card>
+      ) : (
+        days.map(day => (
+          <div key={day.date} className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium text-muted-foreground">{day.label}</h3>
+              <Badge variant="secondary" className="text-xs">
+                {day.doses.length} {day.doses.length === 1 ? 'dose' : 'doses'}
+              </Badge>
+            </div>
+            {day.doses.map((dose, index) => (
+              <motion.div
+                key={`${dose.medicine.id}-${dose.date}-${dose.time}`}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: Math.min(index, 10) * 0.05 }}
+              >
+                <Card>
+                  <CardContent className="p-4">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-3">
+                        <div
+                          className="w-4 h-4 rounded-full"
+                          style={{ backgroundColor: dose.medicine.color }}
+                        />
+                        <div>
+                          <p className="font-medium">{dose.medicine.name}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {dose.dosage}
+                            {dose.instruction && ` • ${dose.instruction}`}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <p className="font-medium">
+                          {dose.localTime}
+                          {dose.homeTime && (
+                            <span className="text-xs font-normal text-muted-foreground"> ({dose.homeTime} home)</span>
+                          )}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatTimeUntil(minutesBetween(currentTime, dose.at))}
+                        </p>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              </motion.div>
+            ))}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
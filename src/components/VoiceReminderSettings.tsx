@@ -0,0 +1,157 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent } from './ui/card';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Textarea } from './ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Mic, Play, Speech } from 'lucide-react';
+import type { VoiceSettings } from '../types/medicine';
+import {
+  DEFAULT_REMINDER_PHRASE,
+  getReminderPhrase,
+  getVoices,
+  isSpeechSupported,
+  isVoiceCommandSupported,
+  onVoicesChange,
+  saveVoiceSettings,
+  speak,
+  stopSpeaking,
+  storedVoiceSettings
+} from '../utils/speech';
+import { useStoredValue } from '../utils/storedValue';
+
+const AUTOMATIC = 'auto';
+
+const SAMPLE_DOSE = {
+  name: 'Vitamin D',
+  dosage: '1 tablet',
+  time: new Date(2000, 0, 1, 8, 0).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' }),
+  notes: 'Take with breakfast'
+};
+
+export function VoiceReminderSettings() {
+  const settings = useStoredValue(storedVoiceSettings);
+  const [voices, setVoices] = useState(() => getVoices());
+
+  useEffect(() => onVoicesChange(() => setVoices(getVoices())), []);
+
+  if (!isSpeechSupported()) return null;
+
+  const handleChange = (update: Partial<VoiceSettings>) => {
+    saveVoiceSettings({ ...settings, ...update });
+  };
+
+  const languages = [...new Set(voices.map(voice => voice.lang))].sort();
+  const languageVoices = voices.filter(voice => !settings.lang || voice.lang === settings.lang);
+
+  const handlePreview = () => {
+    stopSpeaking();
+    speak(getReminderPhrase(SAMPLE_DOSE, settings.phrase), settings);
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <Speech className="h-5 w-5 text-primary" />
+            <div>
+              <h3 className="font-medium">Spoken Reminders</h3>
+              <p className="text-xs text-muted-foreground">
+                Reads each reminder aloud after its alarm
+              </p>
+            </div>
+          </div>
+          <Switch
+            checked={settings.enabled}
+            onCheckedChange={(enabled: boolean) => handleChange({ enabled })}
+            aria-label="Spoken reminders"
+          />
+        </div>
+
+        {settings.enabled && (
+          <div className="space-y-3 pt-2 border-t">
+            <div className="space-y-1">
+              <Label htmlFor="voice-phrase" className="text-xs text-muted-foreground">What to say</Label>
+              <Textarea
+                id="voice-phrase"
+                value={settings.phrase}
+                onChange={(e) => handleChange({ phrase: e.target.value })}
+                onBlur={() => !settings.phrase.trim() && handleChange({ phrase: DEFAULT_REMINDER_PHRASE })}
+                rows={2}
+              />
+              <p className="text-xs text-muted-foreground">
+                {'{name}'}, {'{dosage}'}, {'{time}'} and {'{notes}'} are filled in for each medicine
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="voice-lang" className="text-xs text-muted-foreground">Language</Label>
+                <Select
+                  value={settings.lang ?? AUTOMATIC}
+                  onValueChange={(lang: string) => handleChange({
+                    lang: lang === AUTOMATIC ? undefined : lang,
+                    voiceURI: undefined
+                  })}
+                >
+                  <SelectTrigger id="voice-lang" className="h-10">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTOMATIC}>Device language</SelectItem>
+                    {languages.map(lang => (
+                      <SelectItem key={lang} value={lang}>{lang}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="voice-name" className="text-xs text-muted-foreground">Voice</Label>
+                <Select
+                  value={settings.voiceURI ?? AUTOMATIC}
+                  onValueChange={(voiceURI: string) => handleChange({ voiceURI: voiceURI === AUTOMATIC ? undefined : voiceURI })}
+                >
+                  <SelectTrigger id="voice-name" className="h-10">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTOMATIC}>Automatic</SelectItem>
+                    {languageVoices.map(voice => (
+                      <SelectItem key={voice.voiceURI} value={voice.voiceURI}>{voice.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {isVoiceCommandSupported() && (
+              <>
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex items-center gap-2">
+                    <Mic className="h-4 w-4 text-muted-foreground" />
+                    <Label htmlFor="voice-commands" className="text-sm">Answer by voice</Label>
+                  </div>
+                  <Switch
+                    id="voice-commands"
+                    checked={settings.listenForCommands}
+                    onCheckedChange={(listenForCommands: boolean) => handleChange({ listenForCommands })}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  After reading a reminder, listens for a few seconds for "taken" or "snooze 15 minutes"
+                </p>
+              </>
+            )}
+
+            <Button variant="outline" className="w-full" onClick={handlePreview}>
+              <Play className="h-4 w-4 mr-2" />
+              Try It
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
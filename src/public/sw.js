@@ -0,0 +1,234 @@
+// Service worker for medicine reminders.
+// Shows reminder notifications for the app and keeps their Take / Snooze actions, and the reminders
+// it showed on its own, in a cache until the app next opens and writes them to the log and history.
+
+const ACTION_CACHE = 'pillreminder-actions';
+const ACTION_KEY = 'pending-actions';
+const FIRED_KEY = 'fired-reminders';
+const BADGE_KEY = 'badge-count';
+const SCHEDULE_KEY = 'scheduled-reminders';
+const RELAY_KEY = 'relay-device';
+const NOTIFICATION_SNOOZE_MINUTES = 10;
+const LATE_LIMIT_MS = 60 * 60 * 1000; // as on the push relay; older reminders are dropped, not shown
+
+const supportsTriggers = () => typeof TimestampTrigger !== 'undefined' && 'showTrigger' in Notification.prototype;
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+const getOptions = (reminder) => ({
+  body: reminder.body,
+  tag: reminder.key,
+  renotify: true,
+  requireInteraction: true,
+  silent: !!reminder.silent,
+  data: reminder,
+  actions: reminder.test ? [] : [
+    { action: 'take', title: reminder.doses.length > 1 ? 'Take All' : 'Take' },
+    { action: 'snooze', title: `Snooze ${NOTIFICATION_SNOOZE_MINUTES} min` }
+  ]
+});
+
+const showReminder = (reminder) => self.registration.showNotification(reminder.title, getOptions(reminder));
+
+// Future reminders are handed to the browser so they fire even when every tab is closed,
+// where notification triggers are supported. Elsewhere they are kept here and shown whenever
+// the worker next wakes after they come due; only the push relay wakes it on time.
+// takenDoses lists doses the app logged as taken lately, as medicineId|date|time.
+async function scheduleReminders(reminders, takenDoses = []) {
+  if (!supportsTriggers()) {
+    // Snoozes tapped on notifications may not have reached the app yet, so they stay until shown or taken
+    const isTaken = (dose) => takenDoses.includes(`${dose.medicineId}|${dose.date}|${dose.time}`);
+    const snoozed = (await readSchedule())
+      .filter((kept) => kept.snoozed && !reminders.some((reminder) => reminder.key === kept.key))
+      .map((kept) => ({ ...kept, doses: kept.doses.filter((dose) => !isTaken(dose)) }))
+      .filter((kept) => kept.doses.length > 0);
+    await saveJson(SCHEDULE_KEY, [...reminders, ...snoozed]);
+    await showDueReminders();
+    return;
+  }
+
+  const pending = await self.registration.getNotifications({ includeTriggered: false });
+  pending.forEach((notification) => notification.close());
+
+  await Promise.all(reminders.map((reminder) => showTriggeredReminder(reminder, reminder.at)));
+}
+
+// The worker does not run when a trigger fires, so these reminders are recorded once they are tapped or closed
+const showTriggeredReminder = (reminder, at) => self.registration.showNotification(reminder.title, {
+  ...getOptions(reminder),
+  data: { ...reminder, at, triggered: true },
+  showTrigger: new TimestampTrigger(at)
+});
+
+async function readJson(key, fallback) {
+  const cache = await caches.open(ACTION_CACHE);
+  const response = await cache.match(key);
+  return response ? response.json() : fallback;
+}
+
+async function saveJson(key, value) {
+  const cache = await caches.open(ACTION_CACHE);
+  await cache.put(key, new Response(JSON.stringify(value)));
+}
+
+const readSchedule = () => readJson(SCHEDULE_KEY, []);
+
+// Lists the app reads are kept one entry per item, so the app can delete exactly the items it read
+// without losing any added here in the meantime
+async function addToList(key, items) {
+  const cache = await caches.open(ACTION_CACHE);
+  await Promise.all(items.map((item) => cache.put(`${key}/${crypto.randomUUID()}`, new Response(JSON.stringify(item)))));
+}
+
+// Reminders the app asked for itself are already in its history
+const saveFiring = (reminder, at) => addToList(FIRED_KEY, [{
+  doses: reminder.doses,
+  firedAt: new Date(at).toISOString()
+}]);
+
+// The app sends the exact number of pending doses while open; in between, reminders shown here
+// add to it and Take actions subtract, so the icon badge stays roughly right while the app is closed
+const saveBadgeCount = (count) => saveJson(BADGE_KEY, count);
+
+async function changeBadgeCount(change) {
+  const count = Math.max(0, (await readJson(BADGE_KEY, 0)) + change);
+  await saveBadgeCount(count);
+  if ('setAppBadge' in self.navigator) {
+    await (count > 0 ? self.navigator.setAppBadge(count) : self.navigator.clearAppBadge());
+  }
+}
+
+const showFiredReminder = (reminder) => Promise.all([
+  showReminder(reminder),
+  saveFiring(reminder, Date.now()),
+  changeBadgeCount(reminder.doses.length)
+]);
+
+// Removes reminders from the kept schedule once they have been shown some other way
+async function unschedule(keys) {
+  const scheduled = await readSchedule();
+  await saveJson(SCHEDULE_KEY, scheduled.filter((reminder) => !keys.includes(reminder.key)));
+}
+
+// Shows the kept reminders that have come due. An open app shows its own, so they are only dropped then.
+async function showDueReminders() {
+  const scheduled = await readSchedule();
+  const now = Date.now();
+  const due = scheduled.filter((reminder) => reminder.at <= now);
+  if (due.length === 0) return;
+
+  await saveJson(SCHEDULE_KEY, scheduled.filter((reminder) => reminder.at > now));
+  const windows = await self.clients.matchAll({ type: 'window' });
+  if (windows.some((client) => client.visibilityState === 'visible')) return;
+
+  await Promise.all(due
+    .filter((reminder) => now - reminder.at <= LATE_LIMIT_MS)
+    .map(showFiredReminder));
+}
+
+// Snoozing asks the relay for the reminder again, where there is one, and keeps it here in case there is not
+async function snoozeReminder(reminder) {
+  const snoozed = { ...reminder, at: Date.now() + NOTIFICATION_SNOOZE_MINUTES * 60 * 1000, snoozed: true };
+  if (supportsTriggers()) {
+    await showTriggeredReminder(reminder, snoozed.at);
+    return;
+  }
+
+  await saveJson(SCHEDULE_KEY, [...(await readSchedule()).filter((kept) => kept.key !== snoozed.key), snoozed]);
+  const relayDevice = await readJson(RELAY_KEY, null);
+  if (relayDevice) {
+    try {
+      await fetch(`${relayDevice}/reminders`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reminder: snoozed })
+      });
+    } catch (error) {
+      console.error('Error sending snooze to push relay:', error);
+    }
+  }
+}
+
+self.addEventListener('message', (event) => {
+  const message = event.data || {};
+  if (message.type === 'show') {
+    event.waitUntil(Promise.all([showReminder(message.reminder), unschedule([message.reminder.key])]));
+  } else if (message.type === 'schedule') {
+    event.waitUntil(scheduleReminders(message.reminders, message.takenDoses));
+  } else if (message.type === 'badge') {
+    event.waitUntil(saveBadgeCount(message.count));
+  } else if (message.type === 'relay') {
+    event.waitUntil(saveJson(RELAY_KEY, message.device));
+  }
+});
+
+// Reminders sent by the optional push relay at dose time; any kept reminders that came due meanwhile go out too
+self.addEventListener('push', (event) => {
+  const message = event.data ? event.data.json() : {};
+  if (message.type === 'reminder') {
+    event.waitUntil(unschedule([message.reminder.key])
+      .then(() => Promise.all([showFiredReminder(message.reminder), showDueReminders()])));
+  } else {
+    event.waitUntil(showDueReminders());
+  }
+});
+
+// Granted to installed apps in some browsers; the browser picks how often it runs
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === 'reminders') {
+    event.waitUntil(showDueReminders());
+  }
+});
+
+async function handleNotificationClick(action, reminder) {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+
+  if (reminder && reminder.triggered) {
+    await saveFiring(reminder, reminder.at);
+  }
+
+  if ((action === 'take' || action === 'snooze') && reminder && !reminder.test) {
+    // A grouped reminder's actions apply to every dose in it
+    const at = new Date().toISOString();
+    await addToList(ACTION_KEY, reminder.doses.map((dose) => ({
+      type: action,
+      medicineId: dose.medicineId,
+      date: dose.date,
+      time: dose.time,
+      at,
+      minutes: NOTIFICATION_SNOOZE_MINUTES
+    })));
+    windows.forEach((client) => client.postMessage({ type: 'notification-action' }));
+    if (action === 'take') {
+      await changeBadgeCount(-reminder.doses.length);
+    }
+
+    if (action === 'snooze') {
+      await snoozeReminder(reminder);
+    }
+    return;
+  }
+
+  // Tapping the notification itself opens the app
+  if (windows.length > 0) {
+    await windows[0].focus();
+  } else {
+    await self.clients.openWindow(self.registration.scope);
+  }
+}
+
+// Tapping or closing a notification wakes the worker, so the next kept reminder goes out then if it is due
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(handleNotificationClick(event.action, event.notification.data).then(showDueReminders));
+});
+
+self.addEventListener('notificationclose', (event) => {
+  const reminder = event.notification.data;
+  event.waitUntil(Promise.all([
+    reminder && reminder.triggered ? saveFiring(reminder, reminder.at) : null,
+    showDueReminders()
+  ]));
+});
@@ -0,0 +1,12 @@
+import { afterAll, beforeAll } from 'vitest';
+
+// Date reads the zone on every call, so switching TZ moves the device clock for the tests that follow
+export const useDeviceZone = (timeZone: string) => {
+  const originalZone = process.env.TZ;
+  beforeAll(() => {
+    process.env.TZ = timeZone;
+  });
+  afterAll(() => {
+    process.env.TZ = originalZone;
+  });
+};
@@ -0,0 +1,13 @@
+import type { Medicine } from '../types/medicine';
+
+// A once-daily medicine to build test cases from; overrides set what each test is about
+export const testMedicine = (overrides: Partial<Medicine> = {}): Medicine => ({
+  id: 'med',
+  name: 'Test',
+  dosage: '1 tablet',
+  frequency: 'once-daily',
+  times: ['08:00'],
+  startDate: '2026-01-01',
+  color: '#3b82f6',
+  ...overrides
+});
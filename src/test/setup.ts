@@ -0,0 +1,21 @@
+import { afterEach } from 'vitest';
+
+// The settings modules read localStorage directly; tests run in Node, so give them an in-memory one
+const items = new Map<string, string>();
+
+globalThis.localStorage = {
+  get length() {
+    return items.size;
+  },
+  key: (index: number) => [...items.keys()][index] ?? null,
+  getItem: (key: string) => items.get(key) ?? null,
+  setItem: (key: string, value: string) => {
+    items.set(key, String(value));
+  },
+  removeItem: (key: string) => {
+    items.delete(key);
+  },
+  clear: () => items.clear()
+};
+
+afterEach(() => items.clear());
@@ -0,0 +1,177 @@
+export type Recurrence = 'daily' | 'weekdays' | 'every-n-days' | 'cycle';
+
+// One step of a taper or titration plan; dates are inclusive
+export interface DosePhase {
+  startDate: string;
+  endDate: string;
+  dosage: string;
+  times: string[];
+}
+
+// Safety limits for as-needed medicines; every field is optional
+export interface PrnSettings {
+  minIntervalHours?: number;
+  maxDosesPer24h?: number;
+  amountPerDose?: number;
+  maxAmountPer24h?: number;
+  amountUnit?: string;
+}
+
+// When a scheduled dose counts as due, late and missed
+export interface DoseTiming {
+  dueWindowMinutes: number; // either side of the dose time
+  gracePeriodMinutes: number; // after the dose time, then it is logged as missed
+  takeWithinHours: number; // a missed dose may still be taken this long after its time, otherwise skip
+}
+
+export type RoutineAnchor = 'wake' | 'breakfast' | 'lunch' | 'dinner' | 'bedtime';
+
+// A dose time tied to the daily routine, e.g. 30 minutes before breakfast
+export interface RelativeTime {
+  anchor: RoutineAnchor;
+  offsetMinutes: number;
+}
+
+export type Routine = Record<RoutineAnchor, string>;
+
+export interface RoutineProfile {
+  weekday: Routine;
+  weekend?: Routine;
+}
+
+// How doses follow the clock away from home: keep home time, switch at once, or shift an hour a day
+export type TravelPolicy = 'home' | 'local' | 'gradual';
+
+export interface TravelSettings {
+  homeZone: string;
+  defaultPolicy: TravelPolicy;
+  currentZone?: string; // last device time zone seen
+  since?: string; // local date the device arrived in currentZone
+}
+
+// Doses of this medicine must stay at least this far from another medicine's doses
+export interface SpacingRule {
+  medicineId: string;
+  hours: number;
+}
+
+// How hard an unanswered reminder pushes: none plays the alarm once
+export type EscalationLevel = 'none' | 'gentle' | 'standard' | 'strict';
+
+export interface EscalationProfile {
+  repeatMinutes: number; // between alarms while the reminder is unanswered
+  maxRepeats: number; // alarms after the first, each louder, before the dose is unacknowledged
+  alertCaregiver: boolean;
+}
+
+// Who hears about doses that stay unacknowledged
+export interface CaregiverContact {
+  name: string;
+  phone?: string;
+  webhookUrl?: string; // receives a JSON POST for each unacknowledged dose
+}
+
+// Alarms during quiet hours are silent or vibrate only; the window may cross midnight
+export type QuietMode = 'silent' | 'vibrate';
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // HH:mm
+  end: string;
+  mode: QuietMode;
+}
+
+// A generated tone ('tone:chime') or an uploaded file kept offline ('custom:<id>')
+export type SoundChoice = string;
+
+// How many times an alarm plays, or until the reminder is answered or the alarm stopped
+export type AlarmRepeat = number | 'until-acknowledged';
+
+export interface AlertSettings {
+  soundEnabled: boolean;
+  quietHours: QuietHours;
+  defaultSound: SoundChoice;
+  volume: number; // 0-1
+  crescendo: boolean;
+  repeat: AlarmRepeat;
+}
+
+// Spoken reminders; the phrase fills in {name}, {dosage}, {time} and {notes}
+export interface VoiceSettings {
+  enabled: boolean;
+  phrase: string;
+  lang?: string; // missing means the device language
+  voiceURI?: string; // missing picks the browser's voice for the language
+  listenForCommands: boolean;
+}
+
+export interface Medicine {
+  id: string;
+  name: string;
+  dosage: string;
+  frequency: string;
+  times: string[];
+  // Parallel to times; a set entry moves that dose with the routine
+  timeAnchors?: (RelativeTime | null)[];
+  // Interval schedules ("every N hours") repeat from anchorTime on startDate
+  intervalHours?: number;
+  anchorTime?: string;
+  // Which days doses fall on; missing means every day
+  recurrence?: Recurrence;
+  daysOfWeek?: number[]; // 0 = Sunday
+  everyNDays?: number; // counted from startDate
+  // Cycles of N days on, M days off, also counted from startDate
+  cycleDaysOn?: number;
+  cycleDaysOff?: number;
+  cyclePlacebo?: boolean; // placebo doses on off days instead of none
+  // Tapering plans replace dosage and times with per-phase values
+  phases?: DosePhase[];
+  prn?: PrnSettings;
+  timing?: Partial<DoseTiming>;
+  timeZone?: string; // home time zone the schedule was written in
+  travelPolicy?: TravelPolicy; // overrides the app default
+  spacing?: SpacingRule[]; // applies both ways, whichever medicine holds it
+  minDoseGapHours?: number; // closest its own doses may be; missing means they are not checked
+  escalation?: EscalationLevel; // missing means none
+  alertDuringQuietHours?: boolean; // for critical medicines that must ring at night
+  fullScreenAlarm?: boolean; // takes over the screen until acknowledged
+  sound?: SoundChoice; // missing means the default sound
+  alarmVolume?: number; // 0-1; missing means the volume from Settings
+  startDate: string;
+  endDate?: string;
+  notes?: string;
+  color: string;
+  createdAt?: string;
+}
+
+export type DoseStatus = 'taken' | 'missed' | 'snoozed';
+
+export type ReminderResponse = 'taken' | 'snoozed' | 'dismissed';
+
+// One firing of a reminder and what came of it; a snoozed dose fires again as a new record
+export interface ReminderRecord {
+  id: string;
+  medicineId: string;
+  medicineName: string;
+  dosage: string;
+  date: string; // schedule date and time of the dose
+  time: string;
+  localTime: string;
+  firedAt: string; // ISO
+  alarms: number; // including escalation repeats
+  unacknowledged?: boolean;
+  response?: ReminderResponse;
+  respondedAt?: string; // ISO
+}
+
+export interface MedicineLog {
+  medicineId: string;
+  medicineName: string;
+  time: string;
+  takenAt: string;
+  date: string; // local date of the scheduled dose
+  dosage?: string;
+  timestamp?: string; // ISO time the dose was logged
+  status?: DoseStatus; // missing means taken
+  snoozedUntil?: string; // ISO time a snoozed reminder comes back; one entry per snooze
+}
@@ -0,0 +1,65 @@
+import type { AlarmRepeat, AlertSettings, Medicine } from '../types/medicine';
+import { DEFAULT_SOUND } from './sounds';
+import { createStoredValue, isSavedObject } from './storedValue';
+
+const STORAGE_KEY = 'pillreminder-alerts';
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  soundEnabled: true,
+  quietHours: { enabled: false, start: '22:00', end: '07:00', mode: 'vibrate' },
+  defaultSound: DEFAULT_SOUND,
+  volume: 1,
+  crescendo: false,
+  repeat: 1
+};
+
+export const ALARM_REPEAT_OPTIONS: { value: AlarmRepeat; label: string }[] = [
+  { value: 1, label: 'Once' },
+  { value: 2, label: 'Twice' },
+  { value: 3, label: '3 times' },
+  { value: 5, label: '5 times' },
+  { value: 'until-acknowledged', label: 'Until answered' }
+];
+
+export const storedAlertSettings = createStoredValue<AlertSettings>(STORAGE_KEY, {
+  description: 'alert settings',
+  fallback: () => DEFAULT_ALERT_SETTINGS,
+  parse: saved => isSavedObject(saved)
+    ? { ...DEFAULT_ALERT_SETTINGS, ...(saved as Partial<AlertSettings>) }
+    : DEFAULT_ALERT_SETTINGS
+});
+
+export const loadAlertSettings = storedAlertSettings.load;
+
+export const saveAlertSettings = storedAlertSettings.save;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// On the device clock; a window like 22:00-07:00 runs past midnight
+export function isQuietTime(at: Date = new Date(), settings: AlertSettings = loadAlertSettings()) {
+  const { enabled, start, end } = settings.quietHours;
+  if (!enabled || start === end) return false;
+
+  const minutes = at.getHours() * 60 + at.getMinutes();
+  const from = toMinutes(start);
+  const to = toMinutes(end);
+  return from < to ? minutes >= from && minutes < to : minutes >= from || minutes < to;
+}
+
+export type AlertMode = 'sound' | 'vibrate' | 'silent';
+
+// How a reminder for this medicine may get attention at the given time
+export function getAlertMode(medicine: Medicine, at: Date = new Date()): AlertMode {
+  const settings = loadAlertSettings();
+  if (medicine.alertDuringQuietHours || !isQuietTime(at, settings)) {
+    return settings.soundEnabled ? 'sound' : 'vibrate';
+  }
+  return settings.quietHours.mode;
+}
+
+export const getMedicineSound = (medicine?: Medicine) => medicine?.sound ?? loadAlertSettings().defaultSound;
+
+export const getMedicineVolume = (medicine?: Medicine) => medicine?.alarmVolume ?? loadAlertSettings().volume;
@@ -0,0 +1,48 @@
+// Shows the number of pending doses on the installed app's icon through the Badging API,
+// and in the tab title and favicon, which also covers browsers without it
+
+const FAVICON_ID = 'pending-doses-favicon';
+
+let baseTitle: string | null = null;
+
+const getFaviconSvg = (count: number) => {
+  const label = count > 9 ? '9+' : String(count);
+  const badge = count > 0
+    ? `<circle cx="23" cy="9" r="9" fill="#d4183d"/>` +
+      `<text x="23" y="13" font-size="${label.length > 1 ? 10 : 12}" font-family="sans-serif" font-weight="bold" fill="#fff" text-anchor="middle">${label}</text>`
+    : '';
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 32 32">` +
+    `<rect x="3" y="11" width="22" height="12" rx="6" transform="rotate(-35 14 17)" fill="#030213"/>` +
+    badge +
+    `</svg>`;
+};
+
+function updateFavicon(count: number) {
+  let link = document.getElementById(FAVICON_ID) as HTMLLinkElement | null;
+  if (!link) {
+    link = document.createElement('link');
+    link.id = FAVICON_ID;
+    link.rel = 'icon';
+    link.type = 'image/svg+xml';
+    document.head.appendChild(link);
+  }
+  link.href = `data:image/svg+xml,${encodeURIComponent(getFaviconSvg(count))}`;
+}
+
+function updateTitle(count: number) {
+  if (baseTitle === null) baseTitle = document.title;
+  document.title = count > 0 ? `(${count}) ${baseTitle}` : baseTitle;
+}
+
+export function updateAppBadge(count: number) {
+  if ('setAppBadge' in navigator) {
+    const request = count > 0 ? navigator.setAppBadge(count) : navigator.clearAppBadge();
+    request.catch(error => console.warn('Error updating app badge:', error));
+  }
+
+  // The service worker keeps counting from here while the app is closed
+  navigator.serviceWorker?.controller?.postMessage({ type: 'badge', count });
+
+  updateTitle(count);
+  updateFavicon(count);
+}
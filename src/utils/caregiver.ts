@@ -0,0 +1,50 @@
+import type { CaregiverContact } from '../types/medicine';
+import type { ScheduledDose } from './doseSchedule';
+import { createStoredValue } from './storedValue';
+
+const STORAGE_KEY = 'pillreminder-caregiver';
+
+// Saving null removes the contact
+export const storedCaregiver = createStoredValue<CaregiverContact | null>(STORAGE_KEY, {
+  description: 'caregiver',
+  fallback: () => null
+});
+
+export const loadCaregiver = storedCaregiver.load;
+
+export const saveCaregiver = storedCaregiver.save;
+
+export const getCaregiverMessage = (dose: ScheduledDose) => {
+  return `PillReminder: the ${dose.localTime} dose of ${dose.medicine.name} (${dose.dosage}) has not been acknowledged.`;
+};
+
+// A text message the user (or someone nearby) can send when there is no webhook
+export const getCaregiverSmsLink = (contact: CaregiverContact, dose: ScheduledDose) => {
+  return `sms:${contact.phone}?body=${encodeURIComponent(getCaregiverMessage(dose))}`;
+};
+
+// Posts to the caregiver's webhook; resolves with whether it was delivered
+export async function alertCaregiver(dose: ScheduledDose, contact: CaregiverContact | null = loadCaregiver()) {
+  if (!contact?.webhookUrl) return false;
+
+  try {
+    const response = await fetch(contact.webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        type: 'unacknowledged-dose',
+        caregiver: contact.name,
+        medicine: dose.medicine.name,
+        dosage: dose.dosage,
+        date: dose.date,
+        scheduledFor: dose.localTime,
+        at: dose.at.toISOString(),
+        message: getCaregiverMessage(dose)
+      })
+    });
+    return response.ok;
+  } catch (error) {
+    console.error('Error alerting caregiver:', error);
+    return false;
+  }
+}
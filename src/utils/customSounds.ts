@@ -0,0 +1,81 @@
+// Uploaded alarm sounds, kept in IndexedDB so they play offline and do not crowd localStorage
+
+const DB_NAME = 'pillreminder-sounds';
+const STORE = 'sounds';
+export const MAX_SOUND_BYTES = 2 * 1024 * 1024;
+
+export interface CustomSound {
+  id: string;
+  name: string;
+  data: Blob;
+  createdAt: string;
+}
+
+const changes = new EventTarget();
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'id' });
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function listCustomSounds(): Promise<CustomSound[]> {
+  if (!('indexedDB' in window)) return [];
+
+  try {
+    const sounds = await withStore<CustomSound[]>('readonly', store => store.getAll());
+    return sounds.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  } catch (error) {
+    console.error('Error loading custom sounds:', error);
+    return [];
+  }
+}
+
+export async function getCustomSound(id: string): Promise<CustomSound | null> {
+  try {
+    return (await withStore<CustomSound | undefined>('readonly', store => store.get(id))) ?? null;
+  } catch (error) {
+    console.error('Error loading custom sound:', error);
+    return null;
+  }
+}
+
+// Throws with a message for the user when the file cannot be used
+export async function addCustomSound(file: File): Promise<CustomSound> {
+  if (!file.type.startsWith('audio/')) throw new Error('Please choose an audio file');
+  if (file.size > MAX_SOUND_BYTES) throw new Error('Please choose a sound under 2 MB');
+
+  const sound: CustomSound = {
+    id: crypto.randomUUID(),
+    name: file.name.replace(/\.[^.]+$/, ''),
+    data: file,
+    createdAt: new Date().toISOString()
+  };
+  await withStore('readwrite', store => store.put(sound));
+  changes.dispatchEvent(new Event('change'));
+  return sound;
+}
+
+export async function deleteCustomSound(id: string) {
+  await withStore('readwrite', store => store.delete(id));
+  changes.dispatchEvent(new Event('change'));
+}
+
+export const onCustomSoundsChange = (listener: () => void) => {
+  changes.addEventListener('change', listener);
+  return () => changes.removeEventListener('change', listener);
+};
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { useDeviceZone } from '../test/deviceZone';
+import { testMedicine } from '../test/medicine';
+import type { Medicine } from '../types/medicine';
+import { fromWallClock, getWallClock } from './doseClock';
+import { getDosesForDay, parseDateKey } from './doseSchedule';
+import { formatTimeInZone } from './timeZones';
+
+const dosesOn = (med: Medicine, dateKey: string) => getDosesForDay(med, parseDateKey(dateKey));
+
+const hoursBetween = (a: Date, b: Date) => (b.getTime() - a.getTime()) / (60 * 60 * 1000);
+
+describe.each([
+  {
+    zone: 'Europe/Berlin',
+    springForward: '2026-03-29',
+    skippedAt: '2026-03-29T01:30:00.000Z', // 02:30 is skipped and becomes 03:30 CEST
+    fallBack: '2026-10-25',
+    repeatedAt: '2026-10-25T00:30:00.000Z' // first 02:30, still CEST
+  },
+  {
+    zone: 'Australia/Sydney',
+    springForward: '2026-10-04',
+    skippedAt: '2026-10-03T16:30:00.000Z', // 02:30 is skipped and becomes 03:30 AEDT
+    fallBack: '2026-04-05',
+    repeatedAt: '2026-04-04T15:30:00.000Z' // first 02:30, still AEDT
+  }
+])('daylight saving in $zone', ({ zone, springForward, skippedAt, fallBack, repeatedAt }) => {
+  useDeviceZone(zone);
+
+  it('moves a time in the skipped hour forward by the gap', () => {
+    expect(fromWallClock(getWallClock(springForward, '02:30')).toISOString()).toBe(skippedAt);
+
+    const doses = dosesOn(testMedicine({ times: ['02:30'] }), springForward);
+    expect(doses).toHaveLength(1);
+    expect(doses[0].at.toISOString()).toBe(skippedAt);
+    expect(doses[0].localTime).toBe('03:30');
+    expect(doses[0].time).toBe('02:30');
+  });
+
+  it('fires a time in the repeated hour once, at its first occurrence', () => {
+    expect(fromWallClock(getWallClock(fallBack, '02:30')).toISOString()).toBe(repeatedAt);
+
+    const doses = dosesOn(testMedicine({ times: ['02:30'] }), fallBack);
+    expect(doses).toHaveLength(1);
+    expect(doses[0].at.toISOString()).toBe(repeatedAt);
+    expect(doses[0].localTime).toBe('02:30');
+  });
+
+  it('keeps other doses at their clock time on both transition days', () => {
+    for (const day of [springForward, fallBack]) {
+      const doses = dosesOn(testMedicine({ frequency: 'twice-daily', times: ['08:00', '20:00'] }), day);
+      expect(doses.map(dose => dose.localTime)).toEqual(['08:00', '20:00']);
+    }
+  });
+
+  it('steps interval doses in wall-clock time', () => {
+    const everyEightHours = testMedicine({ frequency: 'interval', intervalHours: 8, anchorTime: '08:00', times: [] });
+
+    const spring = dosesOn(everyEightHours, springForward);
+    expect(spring.map(dose => dose.localTime)).toEqual(['00:00', '08:00', '16:00']);
+    expect(hoursBetween(spring[0].at, spring[1].at)).toBe(7);
+    expect(hoursBetween(spring[1].at, spring[2].at)).toBe(8);
+
+    const autumn = dosesOn(everyEightHours, fallBack);
+    expect(autumn.map(dose => dose.localTime)).toEqual(['00:00', '08:00', '16:00']);
+    expect(hoursBetween(autumn[0].at, autumn[1].at)).toBe(9);
+    expect(hoursBetween(autumn[1].at, autumn[2].at)).toBe(8);
+  });
+
+  it('merges an hourly interval dose in the skipped hour into the next one', () => {
+    const hourly = testMedicine({ frequency: 'interval', intervalHours: 1, anchorTime: '00:00', times: [] });
+    const doses = dosesOn(hourly, springForward);
+
+    expect(doses).toHaveLength(23);
+    expect(new Set(doses.map(dose => dose.at.getTime())).size).toBe(23);
+  });
+
+  it('still applies travel shifts on transition days', () => {
+    // Tokyo has no daylight saving, so home-time doses must stay at 08:00 there while the device clock jumps
+    const homeTime = testMedicine({ timeZone: 'Asia/Tokyo', travelPolicy: 'home' });
+
+    for (const day of [springForward, fallBack]) {
+      const doses = [-1, 0, 1].flatMap(offset => {
+        const date = parseDateKey(day);
+        date.setDate(date.getDate() + offset);
+        return getDosesForDay(homeTime, date);
+      });
+      expect(doses).toHaveLength(3);
+      doses.forEach(dose => {
+        expect(formatTimeInZone(dose.at, 'Asia/Tokyo')).toBe('08:00');
+        expect(dose.homeTime).toBe('08:00');
+      });
+    }
+  });
+});
+
+// Past UTC+12, where the instant of a wall time is further from it than half a day
+describe('daylight saving in Pacific/Chatham', () => {
+  useDeviceZone('Pacific/Chatham');
+
+  it('moves a time in the skipped hour forward by the gap', () => {
+    // 02:45 becomes 03:45 CHADT (UTC+13:45)
+    expect(fromWallClock(getWallClock('2026-09-27', '03:00')).toISOString()).toBe('2026-09-26T14:15:00.000Z');
+  });
+
+  it('fires a time in the repeated hour once, at its first occurrence', () => {
+    // 03:45 CHADT goes back to 02:45 CHAST (UTC+12:45); the first 03:00 is still CHADT
+    expect(fromWallClock(getWallClock('2026-04-05', '03:00')).toISOString()).toBe('2026-04-04T13:15:00.000Z');
+
+    const doses = dosesOn(testMedicine({ times: ['03:00'] }), '2026-04-05');
+    expect(doses).toHaveLength(1);
+    expect(doses[0].localTime).toBe('03:00');
+  });
+});
@@ -0,0 +1,52 @@
+// Converts written dose times ("HH:MM" on a calendar day) into real instants on the device clock.
+//
+// Dose times are wall-clock times, so they stay at the same clock time across daylight-saving changes.
+// Daylight-saving policy:
+// - Spring forward: a time inside the skipped hour moves forward by the length of the gap
+//   (02:30 becomes 03:30), so it still fires exactly once.
+// - Fall back: a time inside the repeated hour fires once, at its first occurrence.
+// - Interval doses step through wall-clock time too, so "every 8h from 08:00" stays at 08:00, 16:00
+//   and 00:00; the one interval that spans the change is an hour shorter or longer, and an interval
+//   dose inside the skipped hour is merged into the next one.
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+// Far enough either side of a wall time to reach 12h either side of its instant in any zone
+// (offsets run from UTC-12 to UTC+14), so both offsets around a nearby transition are seen
+const OFFSET_SAMPLE_MS = 26 * HOUR_MS;
+
+// Wall-clock times are kept as milliseconds with the local clock read as if it were UTC,
+// which makes them plain numbers that add up without any daylight-saving jumps
+const getOffsetMs = (instant: number) => -new Date(instant).getTimezoneOffset() * MINUTE_MS;
+
+export const toWallClock = (date: Date) => date.getTime() + getOffsetMs(date.getTime());
+
+export function fromWallClock(wall: number): Date {
+  // The offsets either side of any transition near this time
+  const offsetBefore = getOffsetMs(wall - OFFSET_SAMPLE_MS);
+  const offsetAfter = getOffsetMs(wall + OFFSET_SAMPLE_MS);
+
+  const matches = [wall - offsetBefore, wall - offsetAfter]
+    .filter(instant => instant + getOffsetMs(instant) === wall);
+
+  if (matches.length === 0) {
+    // Skipped by spring forward: reading it with the old offset lands just past the gap
+    return new Date(wall - offsetBefore);
+  }
+
+  return new Date(Math.min(...matches));
+}
+
+export const getWallClock = (dateKey: string, time: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return Date.UTC(year, month - 1, day, hours, minutes);
+};
+
+export const getWallDateKey = (wall: number) => new Date(wall).toISOString().slice(0, 10);
+
+export const getWallTime = (wall: number) => new Date(wall).toISOString().slice(11, 16);
+
+// The instant a dose written for this time on this local calendar day happens
+export const getDoseInstant = (dateKey: string, time: string) => fromWallClock(getWallClock(dateKey, time));
+
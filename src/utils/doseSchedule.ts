@@ -0,0 +1,296 @@
+import type { DosePhase, Medicine, MedicineLog } from '../types/medicine';
+import { getDoseInstant, getWallClock, getWallDateKey, getWallTime, toWallClock } from './doseClock';
+import { formatRelativeTime, resolveRelativeTime } from './routine';
+import { formatTimeInZone } from './timeZones';
+import { getTravelShiftMinutes } from './travel';
+
+export type DoseKind = 'active' | 'placebo';
+
+// time and date are the dose's place in the schedule; at and localTime are when it happens on this device
+export interface ScheduledDose {
+  medicine: Medicine;
+  time: string;
+  date: string;
+  at: Date;
+  localTime: string;
+  homeTime?: string; // only set while travelling, when it differs from localTime
+  kind: DoseKind;
+  dosage: string;
+  instruction?: string; // e.g. "30 min before breakfast" for routine-anchored doses
+}
+
+export type CourseStatus = 'upcoming' | 'active' | 'completed';
+
+export interface CyclePosition {
+  phase: 'on' | 'off';
+  day: number; // 1-based day within the phase
+  length: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const formatTime = (date: Date) => date.toTimeString().slice(0, 5);
+
+// Local calendar date as YYYY-MM-DD
+export const toDateKey = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const parseDateKey = (dateKey: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const startOfDay = (date: Date) => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+};
+
+export const addDays = (date: Date, days: number) => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+};
+
+// Whole calendar days from one date to another, unaffected by DST shifts
+export const daysBetween = (from: Date, to: Date) => {
+  return Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS);
+};
+
+// Daylight-saving changes are handled by the dose clock, see doseClock.ts
+export const atTime = (day: Date, time: string) => getDoseInstant(toDateKey(day), time);
+
+export const isIntervalSchedule = (medicine: Medicine) => {
+  return medicine.frequency === 'interval' && !!medicine.intervalHours && !!medicine.anchorTime;
+};
+
+// Where the day falls relative to the startDate..endDate range, both inclusive
+export const getCourseStatus = (medicine: Medicine, day: Date): CourseStatus => {
+  const dateKey = toDateKey(day);
+  if (dateKey < medicine.startDate) return 'upcoming';
+  if (medicine.endDate && dateKey > medicine.endDate) return 'completed';
+  return 'active';
+};
+
+export const getDaysUntilStart = (medicine: Medicine, day: Date) => {
+  return daysBetween(day, parseDateKey(medicine.startDate));
+};
+
+export function getCyclePosition(medicine: Medicine, day: Date): CyclePosition | null {
+  if (medicine.recurrence !== 'cycle' || !medicine.cycleDaysOn) return null;
+
+  const elapsed = daysBetween(parseDateKey(medicine.startDate), day);
+  if (elapsed < 0) return null;
+
+  const daysOn = medicine.cycleDaysOn;
+  const daysOff = medicine.cycleDaysOff ?? 0;
+  const dayOfCycle = elapsed % (daysOn + daysOff);
+
+  return dayOfCycle < daysOn
+    ? { phase: 'on', day: dayOfCycle + 1, length: daysOn }
+    : { phase: 'off', day: dayOfCycle - daysOn + 1, length: daysOff };
+}
+
+export const getCycleLabel = (medicine: Medicine, day: Date) => {
+  const position = getCyclePosition(medicine, day);
+  if (!position) return null;
+  if (position.phase === 'on') return `Day ${position.day} of ${position.length}`;
+
+  const breakLabel = position.length === 7 ? 'Break week' : 'Break';
+  return `${breakLabel} · day ${position.day} of ${position.length}`;
+};
+
+export const hasPhases = (medicine: Medicine) => !!medicine.phases?.length;
+
+export const getPhaseOn = (medicine: Medicine, day: Date): DosePhase | null => {
+  const dateKey = toDateKey(day);
+  return medicine.phases?.find(phase => dateKey >= phase.startDate && dateKey <= phase.endDate) ?? null;
+};
+
+export const getDosageOn = (medicine: Medicine, day: Date) => {
+  return getPhaseOn(medicine, day)?.dosage ?? medicine.dosage;
+};
+
+// A plan is finished once the day is past the end of its last phase
+export const isPlanFinished = (medicine: Medicine, day: Date) => {
+  if (!hasPhases(medicine)) return false;
+  const lastEnd = medicine.phases!.reduce((end, phase) => (phase.endDate > end ? phase.endDate : end), '');
+  return toDateKey(day) > lastEnd;
+};
+
+const getDoseKind = (medicine: Medicine, day: Date): DoseKind => {
+  return getCyclePosition(medicine, day)?.phase === 'off' ? 'placebo' : 'active';
+};
+
+export function isScheduledOn(medicine: Medicine, day: Date): boolean {
+  if (getCourseStatus(medicine, day) !== 'active') return false;
+
+  switch (medicine.recurrence) {
+    case 'weekdays':
+      return (medicine.daysOfWeek ?? []).includes(day.getDay());
+    case 'every-n-days': {
+      const elapsed = daysBetween(parseDateKey(medicine.startDate), day);
+      return elapsed >= 0 && elapsed % (medicine.everyNDays || 1) === 0;
+    }
+    case 'cycle': {
+      const position = getCyclePosition(medicine, day);
+      return !!position && (position.phase === 'on' || !!medicine.cyclePlacebo);
+    }
+    default:
+      return true;
+  }
+}
+
+export const getRecurrenceLabel = (medicine: Medicine) => {
+  switch (medicine.recurrence) {
+    case 'weekdays':
+      return [...(medicine.daysOfWeek ?? [])].sort().map(day => WEEKDAY_LABELS[day]).join(', ');
+    case 'every-n-days':
+      return medicine.everyNDays === 2 ? 'Every other day' : `Every ${medicine.everyNDays} days`;
+    case 'cycle':
+      return `${medicine.cycleDaysOn} on / ${medicine.cycleDaysOff ?? 0} off`;
+    default:
+      return null;
+  }
+};
+
+// The dose keeps its written time even when daylight saving moves the instant it happens
+const createDose = (medicine: Medicine, day: Date, time: string, instruction?: string): ScheduledDose => {
+  const scheduled = atTime(day, time);
+  const at = new Date(scheduled.getTime() + getTravelShiftMinutes(medicine, scheduled) * MINUTE_MS);
+  const localTime = formatTime(at);
+  const homeTime = medicine.timeZone ? formatTimeInZone(at, medicine.timeZone) : localTime;
+
+  return {
+    medicine,
+    time,
+    date: toDateKey(day),
+    at,
+    localTime,
+    homeTime: homeTime !== localTime ? homeTime : undefined,
+    kind: getDoseKind(medicine, day),
+    dosage: getDosageOn(medicine, day),
+    instruction
+  };
+};
+
+// Interval doses run continuously from the anchor, so they drift across midnight
+// whenever the interval does not divide 24 hours evenly. They step in wall-clock time.
+const getIntervalDoses = (medicine: Medicine, from: Date, to: Date) => {
+  const step = medicine.intervalHours! * HOUR_MS;
+  const first = getWallClock(medicine.startDate, medicine.anchorTime!);
+  const skipped = Math.max(0, Math.ceil((toWallClock(from) - first) / step));
+  const doses: ScheduledDose[] = [];
+
+  for (let wall = first + skipped * step; wall < toWallClock(to); wall += step) {
+    const day = parseDateKey(getWallDateKey(wall));
+    const dose = isScheduledOn(medicine, day) ? createDose(medicine, day, getWallTime(wall)) : null;
+    // A dose in the hour skipped by spring forward lands on the next one, so only one of them is kept
+    if (dose && dose.at.getTime() !== doses[doses.length - 1]?.at.getTime()) {
+      doses.push(dose);
+    }
+  }
+
+  return doses;
+};
+
+// Doses as written for one schedule day, before any travel shift
+function getDosesOnScheduleDay(medicine: Medicine, day: Date): ScheduledDose[] {
+  if (medicine.frequency === 'as-needed') return [];
+
+  const dayStart = startOfDay(day);
+
+  if (!isScheduledOn(medicine, dayStart)) return [];
+
+  if (hasPhases(medicine)) {
+    return [...(getPhaseOn(medicine, dayStart)?.times ?? [])]
+      .filter(Boolean)
+      .sort()
+      .map(time => createDose(medicine, dayStart, time));
+  }
+
+  // Anchored doses follow the routine for this day, others keep their clock time
+  return medicine.times
+    .map((time, index) => {
+      const relative = medicine.timeAnchors?.[index];
+      if (relative) {
+        const resolved = resolveRelativeTime(relative, dayStart);
+        return createDose(medicine, dayStart, resolved, formatRelativeTime(relative));
+      }
+      return time ? createDose(medicine, dayStart, time) : null;
+    })
+    .filter((dose): dose is ScheduledDose => dose !== null);
+}
+
+// All doses with from <= at < to, spanning as many days as needed.
+// Neighbouring schedule days are included because travel shifts can move doses across midnight.
+export function getDosesBetween(medicine: Medicine, from: Date, to: Date): ScheduledDose[] {
+  if (medicine.frequency === 'as-needed') return [];
+
+  const doses: ScheduledDose[] = [];
+
+  if (isIntervalSchedule(medicine)) {
+    doses.push(...getIntervalDoses(medicine, addDays(from, -1), addDays(to, 1)));
+  } else {
+    for (let day = addDays(startOfDay(from), -1); day < addDays(to, 1); day = addDays(day, 1)) {
+      doses.push(...getDosesOnScheduleDay(medicine, day));
+    }
+  }
+
+  return doses
+    .filter(dose => dose.at >= from && dose.at < to)
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+// Doses that happen on the given local calendar day
+export function getDosesForDay(medicine: Medicine, day: Date): ScheduledDose[] {
+  const dayStart = startOfDay(day);
+  return getDosesBetween(medicine, dayStart, addDays(dayStart, 1));
+}
+
+// Doses due at the same moment, such as the morning pills, in time order
+export function groupDosesByTime<T extends { at: Date }>(doses: T[]): T[][] {
+  const groups = new Map<number, T[]>();
+  for (const dose of [...doses].sort((a, b) => a.at.getTime() - b.at.getTime())) {
+    const at = dose.at.getTime();
+    groups.set(at, [...(groups.get(at) ?? []), dose]);
+  }
+  return [...groups.values()];
+}
+
+export function getNextDose(medicine: Medicine, now: Date = new Date()): ScheduledDose | null {
+  const from = new Date(now.getTime() + 1);
+  const horizonDays = Math.max(8, (medicine.everyNDays ?? 0) + 1, (medicine.cycleDaysOff ?? 0) + 2);
+  return getDosesBetween(medicine, from, addDays(from, horizonDays))[0] ?? null;
+}
+
+export const minutesBetween = (from: Date, to: Date) => {
+  return Math.round((to.getTime() - from.getTime()) / MINUTE_MS);
+};
+
+// How closely a course was followed: logged doses against the doses it scheduled
+export function getAdherenceSummary(medicine: Medicine, log: MedicineLog[]) {
+  const entries = log.filter(entry => entry.medicineId === medicine.id);
+  const taken = entries.filter(entry => (entry.status ?? 'taken') === 'taken').length;
+  const snoozed = entries.filter(entry => entry.status === 'snoozed').length;
+
+  if (medicine.frequency === 'as-needed' || !medicine.endDate) {
+    return { scheduled: 0, taken, snoozed, percent: null };
+  }
+
+  const scheduled = getDosesBetween(
+    medicine,
+    parseDateKey(medicine.startDate),
+    addDays(parseDateKey(medicine.endDate), 1)
+  ).length;
+
+  return {
+    scheduled,
+    taken,
+    snoozed,
+    percent: scheduled > 0 ? Math.round((Math.min(taken, scheduled) / scheduled) * 100) : null
+  };
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { useDeviceZone } from '../test/deviceZone';
+import { testMedicine } from '../test/medicine';
+import type { MedicineLog } from '../types/medicine';
+import { getDosesForDay, parseDateKey } from './doseSchedule';
+import { findNewlyMissedDoses, getMaxSnoozeMinutes, normalizeLegacyLog } from './doseTiming';
+
+const evening = testMedicine({ times: ['20:00'] });
+
+// Saved before the upgrade, so without createdAt
+const legacyEntry = (date: string, takenAt: string, timestamp?: string): MedicineLog => ({
+  medicineId: 'med',
+  medicineName: 'Test',
+  time: '20:00',
+  takenAt,
+  date,
+  ...(timestamp && { timestamp })
+});
+
+describe('log entries from before the upgrade', () => {
+  describe('west of UTC', () => {
+    useDeviceZone('America/Los_Angeles');
+
+    // 20:05 on 10 May in Los Angeles was already 11 May in UTC
+    const entry = legacyEntry('2026-05-11', '20:05');
+    const now = new Date('2026-05-11T10:00:00-07:00');
+
+    it('moves an entry from its UTC day to the local day it was taken on', () => {
+      expect(normalizeLegacyLog([entry])).toEqual([{ ...entry, date: '2026-05-10', status: 'taken' }]);
+    });
+
+    it('uses the timestamp when there is one', () => {
+      const withTimestamp = legacyEntry('2026-05-11', '20:05', '2026-05-11T03:05:00.000Z');
+      expect(normalizeLegacyLog([withTimestamp])[0].date).toBe('2026-05-10');
+    });
+
+    it('does not mark the dose missed on the first run after upgrading', () => {
+      const missed = findNewlyMissedDoses([evening], normalizeLegacyLog([entry]), now);
+      expect(missed.map(dose => dose.date)).not.toContain('2026-05-10');
+    });
+
+    it('would have marked it missed without normalising', () => {
+      const missed = findNewlyMissedDoses([evening], [entry], now);
+      expect(missed.map(dose => dose.date)).toContain('2026-05-10');
+    });
+  });
+
+  describe('east of UTC', () => {
+    useDeviceZone('Asia/Tokyo');
+
+    it('moves a morning entry back from the previous UTC day', () => {
+      // 08:10 on 10 May in Tokyo was still 9 May in UTC
+      const morning = { ...legacyEntry('2026-05-09', '08:10'), time: '08:00' };
+      expect(normalizeLegacyLog([morning])[0].date).toBe('2026-05-10');
+    });
+  });
+
+  it('leaves entries written since the upgrade alone', () => {
+    const current: MedicineLog[] = [
+      { ...legacyEntry('2026-05-10', '20:05'), status: 'taken' },
+      { ...legacyEntry('2026-05-09', ''), status: 'missed' }
+    ];
+    expect(normalizeLegacyLog(current)).toEqual(current);
+  });
+});
+
+describe('getMaxSnoozeMinutes', () => {
+  const dose = getDosesForDay(testMedicine({ times: ['08:00'] }), parseDateKey('2026-05-10'))[0];
+  const minutesAfter = (minutes: number) => new Date(dose.at.getTime() + minutes * 60 * 1000);
+
+  it('ends snoozes before the dose can no longer be taken', () => {
+    expect(getMaxSnoozeMinutes([dose], minutesAfter(5))).toBe(115);
+    expect(getMaxSnoozeMinutes([dose], minutesAfter(150))).toBe(0);
+  });
+
+  it('uses the strictest limit in a group', () => {
+    const strict = getDosesForDay(
+      testMedicine({ id: 'strict', times: ['08:00'], timing: { dueWindowMinutes: 15, gracePeriodMinutes: 30, takeWithinHours: 1 } }),
+      parseDateKey('2026-05-10')
+    )[0];
+    expect(getMaxSnoozeMinutes([dose, strict], minutesAfter(5))).toBe(55);
+  });
+});
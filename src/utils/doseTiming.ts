@@ -0,0 +1,146 @@
+import type { DoseTiming, Medicine, MedicineLog } from '../types/medicine';
+import { addDays, getDosesBetween, parseDateKey, toDateKey, type ScheduledDose } from './doseSchedule';
+import { getDoseInstant } from './doseClock';
+import { getDoseReminderKey, getReminderState, getSnoozedUntil } from './reminderState';
+import { escalates } from './escalation';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const MISSED_LOOKBACK_MS = 2 * 24 * 60 * MINUTE_MS;
+
+export const DEFAULT_TIMING: DoseTiming = {
+  dueWindowMinutes: 15,
+  gracePeriodMinutes: 60,
+  takeWithinHours: 2
+};
+
+export type DoseState = 'upcoming' | 'due' | 'overdue' | 'missed';
+
+export const getTiming = (medicine: Medicine): DoseTiming => ({
+  ...DEFAULT_TIMING,
+  ...medicine.timing
+});
+
+// upcoming -> due (inside the window) -> overdue (until the grace period ends) -> missed
+export function getDoseState(dose: ScheduledDose, now: Date = new Date()): DoseState {
+  const timing = getTiming(dose.medicine);
+  const offset = now.getTime() - dose.at.getTime();
+
+  if (offset < -timing.dueWindowMinutes * MINUTE_MS) return 'upcoming';
+  if (offset <= timing.dueWindowMinutes * MINUTE_MS) return 'due';
+  if (offset <= timing.gracePeriodMinutes * MINUTE_MS) return 'overdue';
+  return 'missed';
+}
+
+// Missed-dose rule: take it if still within the allowed time, otherwise skip it
+export const canStillTake = (dose: ScheduledDose, now: Date = new Date()) => {
+  return now.getTime() - dose.at.getTime() <= getTiming(dose.medicine).takeWithinHours * HOUR_MS;
+};
+
+// The longest snooze that still brings the reminder back while every dose in it can be taken
+export const getMaxSnoozeMinutes = (doses: ScheduledDose[], now: Date = new Date()) => {
+  const latest = Math.min(...doses.map(dose => dose.at.getTime() + getTiming(dose.medicine).takeWithinHours * HOUR_MS));
+  return Math.max(0, Math.floor((latest - now.getTime()) / MINUTE_MS));
+};
+
+// The taken or missed entry of a dose; snoozes are separate entries alongside it
+export const findLogEntry = (log: MedicineLog[], dose: ScheduledDose) => {
+  return log.find(entry =>
+    entry.medicineId === dose.medicine.id && entry.date === dose.date && entry.time === dose.time && entry.status !== 'snoozed'
+  );
+};
+
+// Entries from before doses carried their own date have no status and are filed under the UTC day they
+// were logged on. Finds the local day instead, so they match their doses and are not marked missed.
+const getLegacyLocalDate = (entry: MedicineLog) => {
+  if (entry.timestamp) return toDateKey(new Date(entry.timestamp));
+  if (!/^\d{2}:\d{2}$/.test(entry.takenAt)) return entry.date;
+
+  // Only the local clock time was kept: pick the local day on which that time falls on the UTC day
+  const utcDay = parseDateKey(entry.date);
+  for (const offset of [0, -1, 1]) {
+    const candidate = toDateKey(addDays(utcDay, offset));
+    if (getDoseInstant(candidate, entry.takenAt).toISOString().slice(0, 10) === entry.date) return candidate;
+  }
+  return entry.date;
+};
+
+export const normalizeLegacyLog = (log: MedicineLog[]): MedicineLog[] => log.map(entry =>
+  entry.status ? entry : { ...entry, date: getLegacyLocalDate(entry), status: 'taken' }
+);
+
+export const isTakenEntry = (entry?: MedicineLog) => !!entry && (entry.status ?? 'taken') === 'taken';
+
+// Doses to remind about now: due ones that are not snoozed or dismissed, and snoozed ones whose time is up
+export function getReminderDoses(medicine: Medicine, log: MedicineLog[], now: Date = new Date()): ScheduledDose[] {
+  const timing = getTiming(medicine);
+  const lookback = Math.max(timing.dueWindowMinutes * MINUTE_MS, timing.takeWithinHours * HOUR_MS);
+  const candidates = getDosesBetween(
+    medicine,
+    new Date(now.getTime() - lookback),
+    new Date(now.getTime() + timing.dueWindowMinutes * MINUTE_MS + 1)
+  );
+
+  return candidates.filter(dose => {
+    if (isTakenEntry(findLogEntry(log, dose))) return false;
+    const state = getReminderState(getDoseReminderKey(dose));
+    if (state.dismissed) return false;
+    if (state.snoozedUntil) return new Date(state.snoozedUntil) <= now && canStillTake(dose, now);
+    const doseState = getDoseState(dose, now);
+    // Escalating reminders stay up past the due window until the grace period ends
+    return doseState === 'due' || (doseState === 'overdue' && !!state.alertedAt && escalates(medicine));
+  });
+}
+
+// A snoozed dose gets a full due window after its snooze before it counts as missed
+const isHeldBySnooze = (dose: ScheduledDose, now: Date) => {
+  const snoozedUntil = getSnoozedUntil(dose);
+  return !!snoozedUntil && now.getTime() <= snoozedUntil.getTime() + getTiming(dose.medicine).dueWindowMinutes * MINUTE_MS;
+};
+
+// How many doses are due or overdue right now and not yet logged, as shown on the app badge
+export function countPendingDoses(medicines: Medicine[], log: MedicineLog[], now: Date = new Date()): number {
+  return medicines.reduce((total, medicine) => {
+    const createdAt = medicine.createdAt ? new Date(medicine.createdAt).getTime() : 0;
+    const doses = getDosesBetween(
+      medicine,
+      new Date(Math.max(now.getTime() - MISSED_LOOKBACK_MS, createdAt)),
+      new Date(now.getTime() + getTiming(medicine).dueWindowMinutes * MINUTE_MS + 1)
+    );
+
+    return total + doses.filter(dose => {
+      if (findLogEntry(log, dose)) return false;
+      const state = getDoseState(dose, now);
+      return state === 'due' || state === 'overdue' || (state === 'missed' && isHeldBySnooze(dose, now));
+    }).length;
+  }, 0);
+}
+
+// Log entries for doses whose grace period has passed without being logged
+export function findNewlyMissedDoses(medicines: Medicine[], log: MedicineLog[], now: Date = new Date()): MedicineLog[] {
+  const missed: MedicineLog[] = [];
+
+  for (const medicine of medicines) {
+    const createdAt = medicine.createdAt ? new Date(medicine.createdAt).getTime() : 0;
+    const from = new Date(Math.max(now.getTime() - MISSED_LOOKBACK_MS, createdAt));
+
+    for (const dose of getDosesBetween(medicine, from, now)) {
+      if (getDoseState(dose, now) !== 'missed' || findLogEntry(log, dose)) continue;
+
+      if (isHeldBySnooze(dose, now)) continue;
+
+      missed.push({
+        medicineId: medicine.id,
+        medicineName: medicine.name,
+        time: dose.time,
+        takenAt: '',
+        date: dose.date,
+        dosage: dose.dosage,
+        timestamp: now.toISOString(),
+        status: 'missed'
+      });
+    }
+  }
+
+  return missed;
+}
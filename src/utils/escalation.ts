@@ -0,0 +1,49 @@
+import type { EscalationLevel, EscalationProfile, Medicine } from '../types/medicine';
+import { needsAlert, type ReminderState } from './reminderState';
+
+const MINUTE_MS = 60 * 1000;
+
+export const ESCALATION_PROFILES: Record<EscalationLevel, EscalationProfile> = {
+  none: { repeatMinutes: 0, maxRepeats: 0, alertCaregiver: false },
+  gentle: { repeatMinutes: 15, maxRepeats: 2, alertCaregiver: false },
+  standard: { repeatMinutes: 10, maxRepeats: 3, alertCaregiver: false },
+  strict: { repeatMinutes: 5, maxRepeats: 4, alertCaregiver: true }
+};
+
+export const ESCALATION_LEVELS: { value: EscalationLevel; label: string; description: string }[] = [
+  { value: 'none', label: 'Single Alarm', description: 'One alarm when the dose is due' },
+  { value: 'gentle', label: 'Gentle', description: 'Repeats twice, 15 minutes apart, e.g. for vitamins' },
+  { value: 'standard', label: 'Standard', description: 'Repeats 3 times, 10 minutes apart, getting louder' },
+  {
+    value: 'strict',
+    label: 'Strict',
+    description: 'Repeats 4 times, 5 minutes apart, then alerts your caregiver, e.g. for insulin or anti-epileptics'
+  }
+];
+
+export const getEscalationProfile = (medicine: Medicine) => ESCALATION_PROFILES[medicine.escalation ?? 'none'];
+
+export const escalates = (medicine: Medicine) => getEscalationProfile(medicine).maxRepeats > 0;
+
+// What the reminder should do now: sound alarm number `count`, give up as unacknowledged, or nothing
+export type AlertStep = { type: 'alarm'; count: number } | { type: 'unacknowledged' };
+
+export function getNextAlert(state: ReminderState, profile: EscalationProfile, now: Date = new Date()): AlertStep | null {
+  // A reminder that fires again after a snooze starts over
+  if (needsAlert(state)) return { type: 'alarm', count: 1 };
+  if (state.unacknowledgedAt || state.acknowledgedAt || !state.alertedAt || profile.maxRepeats === 0) return null;
+  if (now.getTime() - new Date(state.alertedAt).getTime() < profile.repeatMinutes * MINUTE_MS) return null;
+
+  const count = state.alertCount ?? 1;
+  return count <= profile.maxRepeats ? { type: 'alarm', count: count + 1 } : { type: 'unacknowledged' };
+}
+
+// Alarm volume multiplier and vibration pattern, both growing with each repeat
+export function getAlertIntensity(count: number, profile: EscalationProfile) {
+  const step = Math.min(count - 1, profile.maxRepeats);
+  const pulse = 200 + step * 100;
+  return {
+    volume: 1 + step / Math.max(profile.maxRepeats, 1),
+    vibration: Array.from({ length: (step + 2) * 2 - 1 }, (_, index) => (index % 2 === 0 ? pulse : 100))
+  };
+}
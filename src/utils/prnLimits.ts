@@ -0,0 +1,76 @@
+import type { Medicine, MedicineLog } from '../types/medicine';
+
+const HOUR_MS = 60 * 60 * 1000;
+const WINDOW_MS = 24 * HOUR_MS;
+
+export interface PrnStatus {
+  dosesLast24h: number;
+  amountLast24h: number;
+  nextAllowedAt: Date | null;
+  reason: string | null;
+}
+
+// Time at which enough of the oldest doses have left the 24h window for one more to fit
+const getWindowRelease = (doseTimes: number[], mustDrop: number) => {
+  return mustDrop > 0 ? doseTimes[mustDrop - 1] + WINDOW_MS : 0;
+};
+
+export function getPrnStatus(medicine: Medicine, log: MedicineLog[], now: Date = new Date()): PrnStatus {
+  const prn = medicine.prn ?? {};
+  const doseTimes = log
+    .filter(entry => entry.medicineId === medicine.id && entry.timestamp && (entry.status ?? 'taken') === 'taken')
+    .map(entry => new Date(entry.timestamp!).getTime())
+    .filter(time => time > now.getTime() - WINDOW_MS && time <= now.getTime())
+    .sort((a, b) => a - b);
+
+  const amountPerDose = prn.amountPerDose ?? 0;
+  const status: PrnStatus = {
+    dosesLast24h: doseTimes.length,
+    amountLast24h: doseTimes.length * amountPerDose,
+    nextAllowedAt: null,
+    reason: null
+  };
+
+  const limits: { releaseAt: number; reason: string }[] = [];
+
+  if (prn.minIntervalHours && doseTimes.length > 0) {
+    limits.push({
+      releaseAt: doseTimes[doseTimes.length - 1] + prn.minIntervalHours * HOUR_MS,
+      reason: `Doses must be at least ${prn.minIntervalHours}h apart`
+    });
+  }
+
+  if (prn.maxDosesPer24h) {
+    limits.push({
+      releaseAt: getWindowRelease(doseTimes, doseTimes.length - prn.maxDosesPer24h + 1),
+      reason: `Maximum of ${prn.maxDosesPer24h} doses in 24 hours reached`
+    });
+  }
+
+  if (prn.maxAmountPer24h && amountPerDose > 0) {
+    const allowedDoses = Math.max(1, Math.floor(prn.maxAmountPer24h / amountPerDose));
+    limits.push({
+      releaseAt: getWindowRelease(doseTimes, doseTimes.length - allowedDoses + 1),
+      reason: `Another dose would exceed ${prn.maxAmountPer24h}${prn.amountUnit ?? ''} in 24 hours`
+    });
+  }
+
+  const blocking = limits
+    .filter(limit => limit.releaseAt > now.getTime())
+    .sort((a, b) => b.releaseAt - a.releaseAt)[0];
+
+  if (blocking) {
+    status.nextAllowedAt = new Date(blocking.releaseAt);
+    status.reason = blocking.reason;
+  }
+
+  return status;
+}
+
+export const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = String(Math.floor((totalSeconds % 3600) / 60)).padStart(2, '0');
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}h ${minutes}m ${seconds}s` : `${minutes}m ${seconds}s`;
+};
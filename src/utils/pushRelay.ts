@@ -0,0 +1,58 @@
+import type { ScheduledDose } from './doseSchedule';
+import { canNotify, toSystemReminders } from './systemNotifications';
+
+// Optional server that sends reminders as Web Push at dose time (see server/push-relay.mjs)
+const RELAY_URL: string | undefined = import.meta.env.VITE_PUSH_RELAY_URL;
+const DEVICE_KEY = 'pillreminder-push-device';
+
+export const isPushRelayConfigured = () => Boolean(RELAY_URL) && 'PushManager' in window;
+
+const getDeviceId = () => {
+  let id = localStorage.getItem(DEVICE_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(DEVICE_KEY, id);
+  }
+  return id;
+};
+
+const base64UrlToBytes = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const getSubscription = async () => {
+  const registration = await navigator.serviceWorker.ready;
+  const existing = await registration.pushManager.getSubscription();
+  if (existing) return existing;
+
+  const response = await fetch(`${RELAY_URL}/vapid-public-key`);
+  const { publicKey } = await response.json();
+  return registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: base64UrlToBytes(publicKey)
+  });
+};
+
+// Replaces this device's reminders on the relay with the given doses
+export async function syncPushSchedule(doses: ScheduledDose[]) {
+  if (!isPushRelayConfigured() || !canNotify()) return;
+
+  try {
+    const subscription = await getSubscription();
+    const device = `${RELAY_URL}/devices/${getDeviceId()}`;
+    await fetch(device, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        subscription: subscription.toJSON(),
+        reminders: toSystemReminders(doses)
+      })
+    });
+    // So a snooze tapped on a notification while the app is closed still comes back on time
+    (await navigator.serviceWorker.ready).active?.postMessage({ type: 'relay', device });
+  } catch (error) {
+    console.error('Error syncing reminders with push relay:', error);
+  }
+}
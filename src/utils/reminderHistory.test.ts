@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { testMedicine } from '../test/medicine';
+import { getDosesForDay, toDateKey } from './doseSchedule';
+import {
+  loadReminderHistory,
+  recordFiredReminders,
+  recordReminderFired,
+  recordReminderResponse,
+  storedReminderHistory
+} from './reminderHistory';
+import type { ReminderDose } from './systemNotifications';
+
+const medicine = testMedicine({ frequency: 'twice-daily', times: ['08:00', '20:00'] });
+
+// Today, since the history only keeps recent reminders
+const today = new Date();
+const [morning, evening] = getDosesForDay(medicine, today);
+
+const toReminderDose = (time: string): ReminderDose => ({
+  medicineId: 'med',
+  date: toDateKey(today),
+  time,
+  medicineName: 'Test',
+  dosage: '1 tablet',
+  localTime: time
+});
+
+describe('recordFiredReminders', () => {
+  beforeEach(() => storedReminderHistory.save([]));
+
+  it('adds reminders shown by the service worker in the order they fired', () => {
+    recordReminderFired(evening, evening.at);
+    recordFiredReminders([{ doses: [toReminderDose('08:00')], firedAt: morning.at.toISOString() }]);
+
+    expect(loadReminderHistory().map(record => record.time)).toEqual(['08:00', '20:00']);
+    expect(loadReminderHistory()[0]).toMatchObject({ medicineName: 'Test', dosage: '1 tablet', alarms: 1 });
+  });
+
+  it('keeps the page\'s record when both reminded about the same dose', () => {
+    recordReminderFired(morning, morning.at);
+    const pushedAt = new Date(morning.at.getTime() + 20 * 1000).toISOString();
+    recordFiredReminders([{ doses: [toReminderDose('08:00')], firedAt: pushedAt }]);
+
+    expect(loadReminderHistory()).toHaveLength(1);
+  });
+
+  it('lets a Take tapped on the notification answer the reminder', () => {
+    const firedAt = morning.at.toISOString();
+    recordFiredReminders([{ doses: [toReminderDose('08:00'), toReminderDose('20:00')], firedAt }]);
+    recordReminderResponse('med', toDateKey(today), '08:00', 'taken', new Date(morning.at.getTime() + 3 * 60 * 1000));
+
+    const [taken, open] = loadReminderHistory();
+    expect(taken).toMatchObject({ time: '08:00', response: 'taken' });
+    expect(open.response).toBeUndefined();
+  });
+});
@@ -0,0 +1,114 @@
+import type { Medicine, ReminderRecord, ReminderResponse } from '../types/medicine';
+import type { ScheduledDose } from './doseSchedule';
+import { DEFAULT_TIMING, getTiming } from './doseTiming';
+import { createStoredValue } from './storedValue';
+import type { FiredReminder, ReminderDose } from './systemNotifications';
+
+const STORAGE_KEY = 'pillreminder-reminder-history';
+const KEEP_DAYS = 90;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const SAME_FIRING_MS = 5 * MINUTE_MS;
+
+const pruneOldRecords = (records: ReminderRecord[], now: Date) => {
+  const oldest = now.getTime() - KEEP_DAYS * DAY_MS;
+  return records.filter(record => new Date(record.firedAt).getTime() >= oldest);
+};
+
+export const storedReminderHistory = createStoredValue<ReminderRecord[]>(STORAGE_KEY, {
+  description: 'reminder history',
+  fallback: () => [],
+  parse: saved => Array.isArray(saved) ? pruneOldRecords(saved as ReminderRecord[], new Date()) : []
+});
+
+export const loadReminderHistory = storedReminderHistory.load;
+
+const saveReminderHistory = (records: ReminderRecord[]) => storedReminderHistory.save(pruneOldRecords(records, new Date()));
+
+// The latest firing of a dose that has not been answered yet
+const findOpenRecord = (records: ReminderRecord[], medicineId: string, date: string, time: string) => {
+  for (let i = records.length - 1; i >= 0; i--) {
+    const record = records[i];
+    if (record.medicineId === medicineId && record.date === date && record.time === time) {
+      return record.response ? undefined : record;
+    }
+  }
+  return undefined;
+};
+
+const updateOpenRecord = (dose: ScheduledDose, update: Partial<ReminderRecord>) => {
+  const records = loadReminderHistory();
+  const open = findOpenRecord(records, dose.medicine.id, dose.date, dose.time);
+  if (!open) return;
+  saveReminderHistory(records.map(record => (record === open ? { ...record, ...update } : record)));
+};
+
+const createRecord = (dose: ReminderDose, firedAt: string): ReminderRecord => ({
+  id: `${dose.medicineId}|${dose.date}|${dose.time}|${firedAt}`,
+  ...dose,
+  firedAt,
+  alarms: 1
+});
+
+export function recordReminderFired(dose: ScheduledDose, at: Date = new Date()) {
+  saveReminderHistory([...loadReminderHistory(), createRecord({
+    medicineId: dose.medicine.id,
+    medicineName: dose.medicine.name,
+    dosage: dose.dosage,
+    date: dose.date,
+    time: dose.time,
+    localTime: dose.localTime
+  }, at.toISOString())]);
+}
+
+// Adds the reminders the service worker showed on its own. When the page was open and reminded
+// about the same dose at about the same time, its record is kept instead.
+export function recordFiredReminders(fired: FiredReminder[]) {
+  const records = loadReminderHistory();
+  const isRecorded = (dose: ReminderDose, firedAt: string) => records.some(record =>
+    record.medicineId === dose.medicineId && record.date === dose.date && record.time === dose.time &&
+    Math.abs(new Date(record.firedAt).getTime() - new Date(firedAt).getTime()) < SAME_FIRING_MS
+  );
+
+  const added = fired.flatMap(({ doses, firedAt }) =>
+    doses.filter(dose => !isRecorded(dose, firedAt)).map(dose => createRecord(dose, firedAt))
+  );
+  if (added.length === 0) return;
+  saveReminderHistory([...records, ...added].sort((a, b) => a.firedAt.localeCompare(b.firedAt)));
+}
+
+export const recordReminderRepeat = (dose: ScheduledDose, alarms: number) => updateOpenRecord(dose, { alarms });
+
+export const recordReminderUnacknowledged = (dose: ScheduledDose) => updateOpenRecord(dose, { unacknowledged: true });
+
+// Answers the dose's open reminder, if it has one; taking a dose from its card counts too
+export function recordReminderResponse(
+  medicineId: string,
+  date: string,
+  time: string,
+  response: ReminderResponse,
+  at: Date = new Date()
+) {
+  const records = loadReminderHistory();
+  const open = findOpenRecord(records, medicineId, date, time);
+  if (!open) return;
+  saveReminderHistory(records.map(record =>
+    record === open ? { ...record, response, respondedAt: at.toISOString() } : record
+  ));
+}
+
+export type ReminderOutcome = ReminderResponse | 'ignored' | 'open';
+
+// A reminder nobody answered within the dose's grace period was ignored
+export function getReminderOutcome(record: ReminderRecord, medicines: Medicine[], now: Date = new Date()): ReminderOutcome {
+  if (record.response) return record.response;
+
+  const medicine = medicines.find(med => med.id === record.medicineId);
+  const { gracePeriodMinutes } = medicine ? getTiming(medicine) : DEFAULT_TIMING;
+  return now.getTime() - new Date(record.firedAt).getTime() > gracePeriodMinutes * MINUTE_MS ? 'ignored' : 'open';
+}
+
+export const getResponseMinutes = (record: ReminderRecord) => {
+  if (!record.respondedAt) return null;
+  return Math.round((new Date(record.respondedAt).getTime() - new Date(record.firedAt).getTime()) / MINUTE_MS);
+};
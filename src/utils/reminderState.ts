@@ -0,0 +1,65 @@
+import type { ScheduledDose } from './doseSchedule';
+import { addDays, toDateKey } from './doseSchedule';
+import { createStoredValue, isSavedObject } from './storedValue';
+
+const STORAGE_KEY = 'pillreminder-reminders';
+
+// What has happened to the reminder of one dose occurrence
+export interface ReminderState {
+  dismissed?: boolean;
+  snoozedUntil?: string; // ISO
+  alertedAt?: string; // ISO time the alarm last played
+  alertCount?: number; // alarms since the reminder first fired or its snooze ran out
+  unacknowledgedAt?: string; // ISO time escalation gave up
+  caregiverAlertedAt?: string; // ISO
+  acknowledgedAt?: string; // ISO time a full-screen alarm was acknowledged; stops escalation
+}
+
+type ReminderStates = Record<string, ReminderState>;
+
+export const getReminderKey = (medicineId: string, date: string, time: string) => `${medicineId}|${date}|${time}`;
+
+export const getDoseReminderKey = (dose: ScheduledDose) => getReminderKey(dose.medicine.id, dose.date, dose.time);
+
+// Yesterday is kept because doses from just before midnight can still be due after it
+const pruneOldStates = (states: ReminderStates, now: Date) => {
+  const oldest = toDateKey(addDays(now, -1));
+  return Object.fromEntries(
+    Object.entries(states).filter(([key]) => key.split('|')[1] >= oldest)
+  );
+};
+
+export const storedReminderStates = createStoredValue<ReminderStates>(STORAGE_KEY, {
+  description: 'reminder state',
+  fallback: () => ({}),
+  parse: saved => isSavedObject(saved) ? pruneOldStates(saved as ReminderStates, new Date()) : {}
+});
+
+export const loadReminderStates = storedReminderStates.load;
+
+export const getReminderState = (key: string): ReminderState => loadReminderStates()[key] ?? {};
+
+export function updateReminderState(key: string, update: ReminderState): ReminderStates {
+  const states = pruneOldStates(loadReminderStates(), new Date());
+  const updated = { ...states, [key]: { ...states[key], ...update } };
+  storedReminderStates.save(updated);
+  return updated;
+}
+
+// A reminder the service worker showed counts as the dose's alarm, so opening the app does not ring it again
+export function recordBackgroundAlert(key: string, firedAt: string) {
+  const { alertedAt } = getReminderState(key);
+  if (alertedAt && alertedAt >= firedAt) return;
+  updateReminderState(key, { alertedAt: firedAt, alertCount: 1, unacknowledgedAt: undefined, acknowledgedAt: undefined });
+}
+
+export const getSnoozedUntil = (dose: ScheduledDose): Date | null => {
+  const { snoozedUntil } = getReminderState(getDoseReminderKey(dose));
+  return snoozedUntil ? new Date(snoozedUntil) : null;
+};
+
+// The alarm plays once per reminder, and again each time a snooze runs out
+export const needsAlert = (state: ReminderState) => {
+  if (!state.alertedAt) return true;
+  return !!state.snoozedUntil && state.alertedAt < state.snoozedUntil;
+};
@@ -0,0 +1,56 @@
+import type { RelativeTime, Routine, RoutineAnchor, RoutineProfile } from '../types/medicine';
+import { createStoredValue } from './storedValue';
+
+const STORAGE_KEY = 'pillreminder-routine';
+
+export const ROUTINE_ANCHORS: { value: RoutineAnchor; label: string }[] = [
+  { value: 'wake', label: 'Wake Up' },
+  { value: 'breakfast', label: 'Breakfast' },
+  { value: 'lunch', label: 'Lunch' },
+  { value: 'dinner', label: 'Dinner' },
+  { value: 'bedtime', label: 'Bedtime' }
+];
+
+export const DEFAULT_ROUTINE: RoutineProfile = {
+  weekday: {
+    wake: '07:00',
+    breakfast: '07:30',
+    lunch: '12:30',
+    dinner: '19:00',
+    bedtime: '22:30'
+  }
+};
+
+// Read by the dose engine directly, so anchored times resolve without threading the routine everywhere
+export const storedRoutine = createStoredValue<RoutineProfile>(STORAGE_KEY, {
+  description: 'routine',
+  fallback: () => DEFAULT_ROUTINE
+});
+
+export const loadRoutine = storedRoutine.load;
+
+export const saveRoutine = storedRoutine.save;
+
+export const getRoutineFor = (day: Date): Routine => {
+  const routine = loadRoutine();
+  const isWeekend = day.getDay() === 0 || day.getDay() === 6;
+  return isWeekend && routine.weekend ? routine.weekend : routine.weekday;
+};
+
+// Clock time of an anchored dose on the given day, clamped to that day
+export const resolveRelativeTime = (relative: RelativeTime, day: Date) => {
+  const [hours, minutes] = getRoutineFor(day)[relative.anchor].split(':').map(Number);
+  const total = Math.min(Math.max(hours * 60 + minutes + relative.offsetMinutes, 0), 24 * 60 - 1);
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+};
+
+export const formatRelativeTime = (relative: RelativeTime) => {
+  const anchor = relative.anchor === 'wake' ? 'waking up' : relative.anchor;
+  if (relative.offsetMinutes === 0) {
+    return relative.anchor === 'wake' ? 'On waking up' : `At ${anchor}`;
+  }
+
+  const amount = Math.abs(relative.offsetMinutes);
+  const duration = amount % 60 === 0 ? `${amount / 60} hour${amount === 60 ? '' : 's'}` : `${amount} min`;
+  return `${duration} ${relative.offsetMinutes < 0 ? 'before' : 'after'} ${anchor}`;
+};
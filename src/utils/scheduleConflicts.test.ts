@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { testMedicine } from '../test/medicine';
+import type { Medicine } from '../types/medicine';
+import { addDays, toDateKey } from './doseSchedule';
+import { findScheduleConflicts, suggestTimetable } from './scheduleConflicts';
+
+const now = new Date(2026, 4, 11, 9, 0); // a Monday
+const today = toDateKey(now);
+
+const medicine = (id: string, overrides: Partial<Medicine>) => testMedicine({ id, name: id, startDate: today, ...overrides });
+
+describe('findScheduleConflicts', () => {
+  it('leaves a medicine\'s own times alone unless it sets a minimum gap', () => {
+    const fourTimes = medicine('a', { frequency: 'four-times-daily', times: ['08:00', '10:00', '12:00', '14:00'] });
+    expect(findScheduleConflicts([fourTimes], now)).toEqual([]);
+
+    const withGap = { ...fourTimes, minDoseGapHours: 3 };
+    expect(findScheduleConflicts([withGap], now)).toHaveLength(3);
+  });
+
+  it('finds clashes that only happen later in a plan', () => {
+    const calcium = medicine('calcium', { times: ['08:00'], spacing: [{ medicineId: 'thyroid', hours: 4 }] });
+    const thyroid = medicine('thyroid', {
+      frequency: 'tapering',
+      times: [],
+      phases: [
+        { startDate: today, endDate: toDateKey(addDays(now, 4)), dosage: '25mcg', times: ['14:00'] },
+        { startDate: toDateKey(addDays(now, 5)), endDate: toDateKey(addDays(now, 20)), dosage: '50mcg', times: ['10:00'] }
+      ]
+    });
+
+    const conflicts = findScheduleConflicts([calcium, thyroid], now);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].date).toBe(toDateKey(addDays(now, 5)));
+    expect(conflicts[0].second).toMatchObject({ time: '10:00', fixed: 'schedule' });
+  });
+
+  it('only reports medicines on alternate days when they fall on the same day', () => {
+    const spacing = [{ medicineId: 'b', hours: 4 }];
+    const evenDays = medicine('a', { recurrence: 'every-n-days', everyNDays: 2, spacing });
+    const oddDays = medicine('b', { recurrence: 'every-n-days', everyNDays: 2, startDate: toDateKey(addDays(now, 1)) });
+    expect(findScheduleConflicts([evenDays, oddDays], now)).toEqual([]);
+
+    const everyThird = { ...oddDays, everyNDays: 3 };
+    const [conflict] = findScheduleConflicts([evenDays, everyThird], now);
+    expect(conflict.date).toBe(toDateKey(addDays(now, 4)));
+  });
+});
+
+describe('suggestTimetable', () => {
+  it('moves plain times and marks anchored ones as fixed', () => {
+    const anchored = medicine('a', {
+      times: [''],
+      timeAnchors: [{ anchor: 'breakfast', offsetMinutes: 0 }],
+      spacing: [{ medicineId: 'b', hours: 2 }]
+    });
+    const plain = medicine('b', { times: ['08:00'] });
+
+    const [conflict] = findScheduleConflicts([anchored, plain], now);
+    expect([conflict.first.fixed, conflict.second.fixed]).toContain('routine');
+
+    const suggestion = suggestTimetable([anchored, plain], now);
+    expect(suggestion).toHaveLength(1);
+    expect(suggestion![0].medicine.id).toBe('b');
+    expect(findScheduleConflicts([anchored, { ...plain, times: suggestion![0].times }], now)).toEqual([]);
+  });
+});
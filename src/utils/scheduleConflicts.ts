@@ -0,0 +1,255 @@
+import type { Medicine } from '../types/medicine';
+import {
+  addDays,
+  daysBetween,
+  getDosesForDay,
+  hasPhases,
+  isIntervalSchedule,
+  isScheduledOn,
+  parseDateKey,
+  startOfDay,
+  toDateKey
+} from './doseSchedule';
+import { getRoutineFor, resolveRelativeTime } from './routine';
+
+const DAY_MINUTES = 24 * 60;
+const SEARCH_STEP_MINUTES = 15;
+const MAX_CHECK_DAYS = 366;
+
+// Why a dose cannot be moved by the suggested timetable
+export type FixedReason = 'routine' | 'schedule';
+
+export interface ConflictDose {
+  medicine: Medicine;
+  time: string;
+  fixed?: FixedReason;
+}
+
+export interface ScheduleConflict {
+  kind: 'too-close' | 'spacing';
+  date: string; // first day the clash happens
+  first: ConflictDose;
+  second: ConflictDose;
+  requiredMinutes: number;
+  actualMinutes: number;
+}
+
+export interface TimetableChange {
+  medicine: Medicine;
+  times: string[];
+}
+
+// One dose time on a day; only plain clock times can be moved, anchored, tapering and interval doses stay put
+interface DoseSlot {
+  medicine: Medicine;
+  index: number | null; // position in medicine.times when movable
+  minutes: number;
+  fixed?: FixedReason;
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const fromMinutes = (total: number) => {
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+};
+
+// Distance on the 24-hour clock, so 23:30 and 00:30 are an hour apart
+const getGap = (a: number, b: number) => {
+  const difference = Math.abs(a - b) % DAY_MINUTES;
+  return Math.min(difference, DAY_MINUTES - difference);
+};
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+const lcm = (a: number, b: number) => (a / gcd(a, b)) * b;
+
+const getSlots = (medicine: Medicine, day: Date): DoseSlot[] => {
+  if (isIntervalSchedule(medicine) || hasPhases(medicine)) {
+    return getDosesForDay(medicine, day).map(dose => ({
+      medicine,
+      index: null,
+      minutes: toMinutes(dose.time),
+      fixed: 'schedule'
+    }));
+  }
+
+  return medicine.times.flatMap((time, index): DoseSlot[] => {
+    const relative = medicine.timeAnchors?.[index];
+    if (relative) {
+      return [{ medicine, index: null, minutes: toMinutes(resolveRelativeTime(relative, day)), fixed: 'routine' }];
+    }
+    return time ? [{ medicine, index, minutes: toMinutes(time) }] : [];
+  });
+};
+
+// Days after which the medicine's doses fall the same way again
+const getRepeatDays = (medicine: Medicine, today: Date) => {
+  if (hasPhases(medicine)) {
+    const lastEnd = medicine.phases!.reduce((end, phase) => (phase.endDate > end ? phase.endDate : end), '');
+    return Math.max(daysBetween(today, parseDateKey(lastEnd)) + 1, 1);
+  }
+  // Intervals that do not divide a day drift, e.g. every 5h repeats after 5 days
+  if (isIntervalSchedule(medicine)) return medicine.intervalHours! / gcd(medicine.intervalHours!, 24);
+
+  switch (medicine.recurrence) {
+    case 'weekdays':
+      return 7;
+    case 'every-n-days':
+      return medicine.everyNDays || 1;
+    case 'cycle':
+      return (medicine.cycleDaysOn ?? 1) + (medicine.cycleDaysOff ?? 0);
+    default:
+      return 1;
+  }
+};
+
+// Enough days to meet every combination of schedules once: the weekly routine, each recurrence,
+// cycle or plan, and courses that have not started yet
+const getCheckDays = (medicines: Medicine[], today: Date) => {
+  let repeatDays = 7;
+  let leadDays = 0;
+  for (const medicine of medicines) {
+    repeatDays = Math.min(lcm(repeatDays, getRepeatDays(medicine, today)), MAX_CHECK_DAYS);
+    leadDays = Math.max(leadDays, daysBetween(today, parseDateKey(medicine.startDate)));
+  }
+
+  return Array.from({ length: Math.min(repeatDays + leadDays, MAX_CHECK_DAYS) }, (_, offset) => {
+    const day = addDays(today, offset);
+    return {
+      day,
+      slots: medicines.filter(medicine => isScheduledOn(medicine, day)).flatMap(medicine => getSlots(medicine, day))
+    };
+  });
+};
+
+const getRequiredSpacing = (a: Medicine, b: Medicine) => {
+  const hours = [
+    ...(a.spacing ?? []).filter(rule => rule.medicineId === b.id),
+    ...(b.spacing ?? []).filter(rule => rule.medicineId === a.id)
+  ].map(rule => rule.hours);
+  return hours.length > 0 ? Math.max(...hours) * 60 : 0;
+};
+
+// Minimum minutes two slots on the same day must be apart, 0 when they are unrelated
+const getRequiredGap = (a: DoseSlot, b: DoseSlot) => {
+  if (a.medicine.id === b.medicine.id) {
+    return isIntervalSchedule(a.medicine) ? 0 : (a.medicine.minDoseGapHours ?? 0) * 60;
+  }
+  return getRequiredSpacing(a.medicine, b.medicine);
+};
+
+const getScheduledMedicines = (medicines: Medicine[]) => {
+  return medicines.filter(medicine => medicine.frequency !== 'as-needed');
+};
+
+const toConflictDose = ({ medicine, minutes, fixed }: DoseSlot): ConflictDose => ({
+  medicine,
+  time: fromMinutes(minutes),
+  fixed
+});
+
+// Clashes on any day until the schedules repeat, each listed once on the first day it happens
+export function findScheduleConflicts(medicines: Medicine[], now: Date = new Date()): ScheduleConflict[] {
+  const conflicts: ScheduleConflict[] = [];
+  const seen = new Set<string>();
+
+  for (const { day, slots } of getCheckDays(getScheduledMedicines(medicines), startOfDay(now))) {
+    slots.forEach((a, i) => {
+      slots.slice(i + 1).forEach(b => {
+        const requiredMinutes = getRequiredGap(a, b);
+        const actualMinutes = getGap(a.minutes, b.minutes);
+        if (actualMinutes >= requiredMinutes) return;
+
+        const [first, second] = a.minutes <= b.minutes ? [a, b] : [b, a];
+        const key = [first.medicine.id, first.minutes, second.medicine.id, second.minutes].join('|');
+        if (seen.has(key)) return;
+        seen.add(key);
+
+        conflicts.push({
+          kind: a.medicine.id === b.medicine.id ? 'too-close' : 'spacing',
+          date: toDateKey(day),
+          first: toConflictDose(first),
+          second: toConflictDose(second),
+          requiredMinutes,
+          actualMinutes
+        });
+      });
+    });
+  }
+
+  return conflicts;
+}
+
+// Moves as few doses as possible, each to the nearest waking time that keeps every rule on every day
+// it is taken. Returns null when there is nothing to fix or no arrangement could be found.
+export function suggestTimetable(medicines: Medicine[], now: Date = new Date()): TimetableChange[] | null {
+  if (findScheduleConflicts(medicines, now).length === 0) return null;
+
+  const checkDays = getCheckDays(getScheduledMedicines(medicines), startOfDay(now));
+  const placed = checkDays.map(({ slots }) => slots.filter(slot => slot.index === null));
+
+  // Each movable time is one entry of medicine.times, taken on some or all of the days
+  const movable = new Map<string, { slot: DoseSlot; days: number[] }>();
+  checkDays.forEach(({ slots }, dayIndex) => {
+    slots.filter(slot => slot.index !== null).forEach(slot => {
+      const key = `${slot.medicine.id}|${slot.index}`;
+      const entry = movable.get(key) ?? { slot, days: [] };
+      entry.days.push(dayIndex);
+      movable.set(key, entry);
+    });
+  });
+
+  const newTimes = new Map<string, string[]>();
+
+  for (const { slot, days } of [...movable.values()].sort((a, b) => a.slot.minutes - b.slot.minutes)) {
+    const fits = (minutes: number) => days.every(dayIndex =>
+      placed[dayIndex].every(other => getGap(minutes, other.minutes) >= getRequiredGap(slot, other))
+    );
+    // Waking hours on every day the dose is taken
+    const routines = days.map(dayIndex => getRoutineFor(checkDays[dayIndex].day));
+    const dayStart = Math.max(...routines.map(routine => toMinutes(routine.wake)));
+    const dayEnd = Math.min(...routines.map(routine => toMinutes(routine.bedtime)));
+
+    let chosen = fits(slot.minutes) ? slot.minutes : null;
+
+    // Try later first, then earlier, staying within waking hours
+    for (let distance = SEARCH_STEP_MINUTES; chosen === null && distance < DAY_MINUTES / 2; distance += SEARCH_STEP_MINUTES) {
+      chosen = [slot.minutes + distance, slot.minutes - distance]
+        .find(minutes => minutes >= dayStart && minutes <= dayEnd && fits(minutes)) ?? null;
+    }
+
+    if (chosen === null) return null;
+
+    days.forEach(dayIndex => placed[dayIndex].push({ ...slot, minutes: chosen }));
+    if (chosen !== slot.minutes) {
+      const times = newTimes.get(slot.medicine.id) ?? [...slot.medicine.times];
+      times[slot.index!] = fromMinutes(chosen);
+      newTimes.set(slot.medicine.id, times);
+    }
+  }
+
+  const changes = medicines
+    .filter(medicine => newTimes.has(medicine.id))
+    .map(medicine => ({ medicine, times: newTimes.get(medicine.id)! }));
+
+  return changes.length > 0 ? changes : null;
+}
+
+export const describeConflict = (conflict: ScheduleConflict, now: Date = new Date()) => {
+  const hours = conflict.requiredMinutes / 60;
+  const when = conflict.date === toDateKey(now)
+    ? ''
+    : ` from ${parseDateKey(conflict.date).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}`;
+  if (conflict.kind === 'too-close') {
+    return `${conflict.first.medicine.name} doses at ${conflict.first.time} and ${conflict.second.time} are less than ${hours}h apart${when}`;
+  }
+  return `${conflict.first.medicine.name} (${conflict.first.time}) and ${conflict.second.medicine.name} (${conflict.second.time}) need ${hours}h between them${when}`;
+};
+
+export const FIXED_REASONS: Record<FixedReason, string> = {
+  routine: 'follows your routine',
+  schedule: 'is set by its interval or plan'
+};
@@ -0,0 +1,86 @@
+import type { SoundChoice } from '../types/medicine';
+
+// One beep of a generated tone; pause is the silence after it in ms
+export interface ToneNote {
+  frequency: number;
+  duration: number; // seconds
+  volume: number;
+  pause?: number;
+  wave?: OscillatorType;
+}
+
+export interface Tone {
+  id: string;
+  label: string;
+  notes: ToneNote[];
+}
+
+export const TONES: Tone[] = [
+  {
+    id: 'classic',
+    label: 'Classic Alarm',
+    notes: [
+      { frequency: 800, duration: 0.3, volume: 0.4, pause: 100 },
+      { frequency: 800, duration: 0.3, volume: 0.4, pause: 100 },
+      { frequency: 1000, duration: 0.5, volume: 0.5 }
+    ]
+  },
+  {
+    id: 'chime',
+    label: 'Chime',
+    notes: [
+      { frequency: 1047, duration: 0.4, volume: 0.35, pause: 60 },
+      { frequency: 1319, duration: 0.4, volume: 0.35, pause: 60 },
+      { frequency: 1568, duration: 0.7, volume: 0.35 }
+    ]
+  },
+  {
+    id: 'bell',
+    label: 'Bell',
+    notes: [
+      { frequency: 880, duration: 0.9, volume: 0.45, pause: 150, wave: 'triangle' },
+      { frequency: 660, duration: 0.9, volume: 0.45, wave: 'triangle' }
+    ]
+  },
+  {
+    id: 'digital',
+    label: 'Digital',
+    notes: [
+      { frequency: 1200, duration: 0.1, volume: 0.2, pause: 80, wave: 'square' },
+      { frequency: 1200, duration: 0.1, volume: 0.2, pause: 80, wave: 'square' },
+      { frequency: 1200, duration: 0.1, volume: 0.2, pause: 80, wave: 'square' },
+      { frequency: 1200, duration: 0.1, volume: 0.2, wave: 'square' }
+    ]
+  },
+  {
+    id: 'rising',
+    label: 'Rising',
+    notes: [
+      { frequency: 440, duration: 0.18, volume: 0.35, pause: 40 },
+      { frequency: 554, duration: 0.18, volume: 0.35, pause: 40 },
+      { frequency: 659, duration: 0.18, volume: 0.35, pause: 40 },
+      { frequency: 880, duration: 0.4, volume: 0.4 }
+    ]
+  },
+  {
+    id: 'low',
+    label: 'Low Hum',
+    notes: [
+      { frequency: 330, duration: 0.6, volume: 0.5, pause: 200, wave: 'triangle' },
+      { frequency: 330, duration: 0.6, volume: 0.5, wave: 'triangle' }
+    ]
+  }
+];
+
+export const DEFAULT_SOUND: SoundChoice = 'tone:classic';
+
+export const toneSound = (id: string): SoundChoice => `tone:${id}`;
+export const customSound = (id: string): SoundChoice => `custom:${id}`;
+
+export const parseSound = (sound: SoundChoice) => {
+  const separator = sound.indexOf(':');
+  return { kind: sound.slice(0, separator), id: sound.slice(separator + 1) };
+};
+
+// Unknown tones fall back to the classic alarm
+export const getTone = (id: string) => TONES.find(tone => tone.id === id) ?? TONES[0];
@@ -0,0 +1,169 @@
+import type { VoiceSettings } from '../types/medicine';
+import type { ScheduledDose } from './doseSchedule';
+import { createStoredValue, isSavedObject } from './storedValue';
+
+const STORAGE_KEY = 'pillreminder-voice';
+const COMMAND_TIMEOUT_MS = 8000;
+const DEFAULT_SNOOZE_MINUTES = 10;
+
+export const DEFAULT_REMINDER_PHRASE = 'Time to take {name}, {dosage}, scheduled for {time}. {notes}';
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  enabled: false,
+  phrase: DEFAULT_REMINDER_PHRASE,
+  listenForCommands: false
+};
+
+export const storedVoiceSettings = createStoredValue<VoiceSettings>(STORAGE_KEY, {
+  description: 'voice settings',
+  fallback: () => DEFAULT_VOICE_SETTINGS,
+  parse: saved => isSavedObject(saved)
+    ? { ...DEFAULT_VOICE_SETTINGS, ...(saved as Partial<VoiceSettings>) }
+    : DEFAULT_VOICE_SETTINGS
+});
+
+export const loadVoiceSettings = storedVoiceSettings.load;
+
+export const saveVoiceSettings = storedVoiceSettings.save;
+
+export const isSpeechSupported = () => 'speechSynthesis' in window;
+
+export interface ReminderPhraseFields {
+  name: string;
+  dosage: string;
+  time: string;
+  notes?: string;
+}
+
+// Fills in the phrase; an empty field also drops the stray punctuation and spaces around it
+export function getReminderPhrase(fields: ReminderPhraseFields, phrase: string = DEFAULT_REMINDER_PHRASE) {
+  return phrase
+    .replace(/\{(name|dosage|time|notes)\}/g, (_match, field: keyof ReminderPhraseFields) => fields[field]?.trim() ?? '')
+    .replace(/\s+([,.!?])/g, '$1')
+    .replace(/([,.!?])(?:\s*[,.])+/g, '$1')
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+}
+
+export const getDosePhraseFields = (dose: ScheduledDose, lang?: string): ReminderPhraseFields => ({
+  name: dose.medicine.name,
+  dosage: dose.dosage,
+  time: dose.at.toLocaleTimeString(lang || undefined, { hour: 'numeric', minute: '2-digit' }),
+  notes: dose.medicine.notes
+});
+
+// Voices arrive asynchronously in some browsers; listen for changes to catch them
+export function getVoices(lang?: string) {
+  if (!isSpeechSupported()) return [];
+  const voices = speechSynthesis.getVoices();
+  if (!lang) return voices;
+  const language = lang.split('-')[0];
+  return voices.filter(voice => voice.lang.split(/[-_]/)[0] === language);
+}
+
+export const onVoicesChange = (listener: () => void) => {
+  if (!isSpeechSupported()) return () => {};
+  speechSynthesis.addEventListener('voiceschanged', listener);
+  return () => speechSynthesis.removeEventListener('voiceschanged', listener);
+};
+
+// Resolves once the text has been read, or straight away where speech is unavailable
+export function speak(text: string, settings: VoiceSettings = loadVoiceSettings()): Promise<void> {
+  if (!isSpeechSupported() || !text) return Promise.resolve();
+
+  return new Promise(resolve => {
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = settings.lang || navigator.language;
+    const voice = speechSynthesis.getVoices().find(v => v.voiceURI === settings.voiceURI);
+    if (voice) utterance.voice = voice;
+    utterance.onend = () => resolve();
+    utterance.onerror = () => resolve();
+    speechSynthesis.speak(utterance);
+  });
+}
+
+// Reads each dose in turn, cutting off anything still being read
+export function speakReminders(doses: ScheduledDose[], settings: VoiceSettings = loadVoiceSettings()) {
+  stopSpeaking();
+  const text = doses
+    .map(dose => getReminderPhrase(getDosePhraseFields(dose, settings.lang), settings.phrase))
+    .join(' ');
+  return speak(text, settings);
+}
+
+export function stopSpeaking() {
+  if (isSpeechSupported()) speechSynthesis.cancel();
+}
+
+export type VoiceCommand = { type: 'take' } | { type: 'snooze'; minutes: number };
+
+// "Snooze", "snooze 15 minutes", "taken", "I took it", "done"
+export function parseVoiceCommand(transcript: string): VoiceCommand | null {
+  const text = transcript.toLowerCase();
+  if (/\bsnooze\b|\blater\b/.test(text)) {
+    const minutes = Number(text.match(/(\d+)\s*(?:m\b|min)/)?.[1]);
+    return { type: 'snooze', minutes: minutes > 0 ? minutes : DEFAULT_SNOOZE_MINUTES };
+  }
+  if (/\b(take|taken|took|taking|done)\b/.test(text)) return { type: 'take' };
+  return null;
+}
+
+// Not in the DOM typings yet; only what is used here
+interface SpeechRecognitionLike {
+  lang: string;
+  interimResults: boolean;
+  maxAlternatives: number;
+  onresult: ((event: { results: ArrayLike<ArrayLike<{ transcript: string }>> }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  abort(): void;
+}
+
+// Chrome and Safari only have the prefixed constructor
+declare global {
+  interface Window {
+    SpeechRecognition?: new () => SpeechRecognitionLike;
+    webkitSpeechRecognition?: new () => SpeechRecognitionLike;
+  }
+}
+
+const getSpeechRecognition = () => window.SpeechRecognition ?? window.webkitSpeechRecognition;
+
+export const isVoiceCommandSupported = () => getSpeechRecognition() !== undefined;
+
+export interface CommandListener {
+  command: Promise<VoiceCommand | null>;
+  stop: () => void;
+}
+
+// Listens briefly for "take" or "snooze"; the browser asks for the microphone the first time
+export function listenForCommand(lang?: string): CommandListener {
+  const Recognition = getSpeechRecognition();
+  if (!Recognition) return { command: Promise.resolve(null), stop: () => {} };
+
+  const recognition = new Recognition();
+  recognition.lang = lang || navigator.language;
+  recognition.interimResults = false;
+  recognition.maxAlternatives = 3;
+
+  let timeout: number | undefined;
+  const command = new Promise<VoiceCommand | null>(resolve => {
+    recognition.onresult = (event) => {
+      const alternatives = Array.from(event.results[0] ?? []);
+      resolve(alternatives.map(alternative => parseVoiceCommand(alternative.transcript)).find(Boolean) ?? null);
+    };
+    recognition.onend = () => {
+      clearTimeout(timeout);
+      resolve(null);
+    };
+    try {
+      recognition.start();
+      timeout = window.setTimeout(() => recognition.abort(), COMMAND_TIMEOUT_MS);
+    } catch (error) {
+      console.warn('Voice commands unavailable:', error);
+      resolve(null);
+    }
+  });
+
+  return { command, stop: () => recognition.abort() };
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from 'vitest';
+
+// Tests run in Node, which has no window to report storage events from other tabs
+vi.hoisted(() => {
+  globalThis.window = new EventTarget() as Window & typeof globalThis;
+});
+
+import { createStoredValue, isSavedObject } from './storedValue';
+
+const writeFromAnotherTab = (key: string | null, value?: unknown) => {
+  if (key === null) {
+    localStorage.clear();
+  } else {
+    localStorage.setItem(key, JSON.stringify(value));
+  }
+  window.dispatchEvent(Object.assign(new Event('storage'), { key, storageArea: localStorage }));
+};
+
+describe('createStoredValue', () => {
+  it('fills in the fallback and keeps what was saved in memory', () => {
+    const stored = createStoredValue('test-memory', { description: 'test', fallback: () => ({ count: 0 }) });
+    expect(stored.load()).toEqual({ count: 0 });
+
+    stored.save({ count: 1 });
+    expect(JSON.parse(localStorage.getItem('test-memory')!)).toEqual({ count: 1 });
+    expect(stored.load()).toBe(stored.load());
+  });
+
+  it('falls back when what was saved cannot be read', () => {
+    localStorage.setItem('test-broken', '{');
+    const logError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const stored = createStoredValue('test-broken', { description: 'test', fallback: () => 'fallback' });
+    expect(stored.load()).toBe('fallback');
+    expect(logError).toHaveBeenCalledOnce();
+    logError.mockRestore();
+  });
+
+  it('removes the key when null is saved', () => {
+    const stored = createStoredValue<string | null>('test-null', { description: 'test', fallback: () => null });
+    stored.save('someone');
+    stored.save(null);
+    expect(localStorage.getItem('test-null')).toBeNull();
+    expect(stored.load()).toBeNull();
+  });
+
+  it('tells subscribers about saves in this tab', () => {
+    const stored = createStoredValue('test-save', { description: 'test', fallback: () => 0 });
+    const listener = vi.fn();
+    const unsubscribe = stored.subscribe(listener);
+
+    stored.save(1);
+    unsubscribe();
+    stored.save(2);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('reloads and tells subscribers when another tab writes the key', () => {
+    const stored = createStoredValue('test-other-tab', {
+      description: 'test',
+      fallback: () => ({ volume: 1, crescendo: false }),
+      parse: saved => ({ volume: 1, crescendo: false, ...(isSavedObject(saved) ? saved : {}) })
+    });
+    const listener = vi.fn();
+    stored.subscribe(listener);
+    expect(stored.load().volume).toBe(1);
+
+    writeFromAnotherTab('test-other-tab', { volume: 0.5 });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(stored.load()).toEqual({ volume: 0.5, crescendo: false });
+
+    writeFromAnotherTab('some-other-key', 'ignored');
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    writeFromAnotherTab(null);
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(stored.load()).toEqual({ volume: 1, crescendo: false });
+  });
+});
@@ -0,0 +1,86 @@
+import { useSyncExternalStore } from 'react';
+
+// A setting or record kept in localStorage and read from memory, so the dose engine, reminders and
+// components all see one copy. Saving here or in another tab (which the browser reports as a storage
+// event) tells every subscriber, so components reading it through useStoredValue re-render.
+export interface StoredValue<T> {
+  load: () => T;
+  save: (value: T) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+interface StoredValueOptions<T> {
+  description: string; // for the error log, e.g. 'alert settings'
+  fallback: () => T;
+  parse?: (saved: unknown) => T; // gets whatever JSON was saved, possibly by an older version
+}
+
+// For parsers: a saved settings object, as opposed to a list, a bare value or null
+export const isSavedObject = (saved: unknown): saved is Record<string, unknown> =>
+  typeof saved === 'object' && saved !== null && !Array.isArray(saved);
+
+// Forgets the cached copy of each key when another tab writes it
+const reloaders = new Map<string, () => void>();
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (event.storageArea !== localStorage) return;
+    // A null key means the other tab cleared all of storage
+    if (event.key === null) {
+      reloaders.forEach(reload => reload());
+    } else {
+      reloaders.get(event.key)?.();
+    }
+  });
+}
+
+// Saving null removes the key
+export function createStoredValue<T>(
+  key: string,
+  { description, fallback, parse = saved => saved as T }: StoredValueOptions<T>
+): StoredValue<T> {
+  const changes = new EventTarget();
+  let current: { value: T } | null = null; // boxed, so a saved null is still cached
+
+  const notify = () => changes.dispatchEvent(new Event('change'));
+
+  const load = () => {
+    if (current) return current.value;
+
+    try {
+      const saved = localStorage.getItem(key);
+      current = { value: saved ? parse(JSON.parse(saved)) : fallback() };
+    } catch (error) {
+      console.error(`Error loading ${description} from localStorage:`, error);
+      current = { value: fallback() };
+    }
+
+    return current.value;
+  };
+
+  const save = (value: T) => {
+    current = { value };
+    if (value === null) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, JSON.stringify(value));
+    }
+    notify();
+  };
+
+  const subscribe = (listener: () => void) => {
+    changes.addEventListener('change', listener);
+    return () => changes.removeEventListener('change', listener);
+  };
+
+  reloaders.set(key, () => {
+    current = null;
+    notify();
+  });
+
+  return { load, save, subscribe };
+}
+
+export function useStoredValue<T>(stored: StoredValue<T>) {
+  return useSyncExternalStore(stored.subscribe, stored.load);
+}
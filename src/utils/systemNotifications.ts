@@ -0,0 +1,195 @@
+import type { MedicineLog } from '../types/medicine';
+import { addDays, groupDosesByTime, toDateKey, type ScheduledDose } from './doseSchedule';
+import { getAlertMode } from './alertSettings';
+import { isTakenEntry } from './doseTiming';
+import { getReminderKey } from './reminderState';
+
+// Must match sw.js
+const ACTION_CACHE = 'pillreminder-actions';
+const ACTION_KEY = 'pending-actions';
+const FIRED_KEY = 'fired-reminders';
+
+// One dose in a reminder, as the log identifies it, with what the reminder history shows of it
+export interface ReminderDose {
+  medicineId: string;
+  date: string;
+  time: string;
+  medicineName: string;
+  dosage: string;
+  localTime: string;
+}
+
+// What the service worker needs to show a reminder; also comes back as the notification's data.
+// Doses due at the same time share one reminder, and its actions apply to all of them.
+export interface SystemReminder {
+  key: string;
+  doses: ReminderDose[];
+  title: string;
+  body: string;
+  at?: number; // epoch ms, for reminders scheduled ahead
+  silent?: boolean; // during quiet hours; notifications cannot vibrate without sound
+  test?: boolean;
+}
+
+// A Take or Snooze tapped on a notification, waiting to be written to the log
+export interface NotificationAction {
+  type: 'take' | 'snooze';
+  medicineId: string;
+  date: string;
+  time: string;
+  at: string; // ISO time it was tapped
+  minutes: number; // snooze length
+}
+
+// A reminder the service worker showed on its own, from a push or a notification trigger,
+// waiting to be added to the reminder history
+export interface FiredReminder {
+  doses: ReminderDose[];
+  firedAt: string; // ISO
+}
+
+export const isNotificationSupported = () => 'Notification' in window && 'serviceWorker' in navigator;
+
+export const getNotificationPermission = (): NotificationPermission | 'unsupported' => {
+  return isNotificationSupported() ? Notification.permission : 'unsupported';
+};
+
+export const canNotify = () => getNotificationPermission() === 'granted';
+
+// Only some Chromium builds can schedule a notification ahead; without the push relay, other browsers
+// show reminders for a closed app late, whenever the service worker next wakes
+export const supportsNotificationTriggers = () => 'Notification' in window && 'showTrigger' in Notification.prototype;
+
+// Not in the DOM typings yet
+interface PeriodicSyncManager {
+  register(tag: string, options?: { minInterval: number }): Promise<void>;
+}
+
+// Wakes the service worker now and then to show reminders that came due, where the browser allows it
+// (installed apps in Chromium); the browser decides how often
+async function registerPeriodicSync(registration: ServiceWorkerRegistration) {
+  const periodicSync = (registration as ServiceWorkerRegistration & { periodicSync?: PeriodicSyncManager }).periodicSync;
+  if (!periodicSync) return;
+
+  try {
+    await periodicSync.register('reminders', { minInterval: 15 * 60 * 1000 });
+  } catch {
+    // Not granted to this site
+  }
+}
+
+export function registerServiceWorker() {
+  if (!('serviceWorker' in navigator)) return;
+
+  navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`)
+    .then(registerPeriodicSync)
+    .catch(error => {
+      console.error('Error registering service worker:', error);
+    });
+}
+
+export async function requestNotificationPermission() {
+  if (!isNotificationSupported()) return 'unsupported';
+  registerServiceWorker();
+  return Notification.requestPermission();
+}
+
+const postToServiceWorker = async (message: object) => {
+  if (!canNotify()) return;
+  const registration = await navigator.serviceWorker.ready;
+  registration.active?.postMessage(message);
+};
+
+// Expects doses due at the same time, as grouped by groupDosesByTime
+export function toSystemReminder(doses: ScheduledDose[]): SystemReminder {
+  const [first] = doses;
+  const single = doses.length === 1;
+
+  return {
+    // One key per time slot, so a slot keeps its notification as doses are taken from it
+    key: `slot|${first.at.getTime()}`,
+    doses: doses.map(dose => ({
+      medicineId: dose.medicine.id,
+      date: dose.date,
+      time: dose.time,
+      medicineName: dose.medicine.name,
+      dosage: dose.dosage,
+      localTime: dose.localTime
+    })),
+    title: single ? `Time for ${first.medicine.name}` : `Time for ${doses.length} medicines`,
+    body: single
+      ? [first.dosage, `Scheduled for ${first.localTime}`, first.instruction].filter(Boolean).join(' • ')
+      : [...doses.map(dose => `${dose.medicine.name} ${dose.dosage}`), `Scheduled for ${first.localTime}`].join('\n'),
+    at: first.at.getTime(),
+    silent: doses.every(dose => getAlertMode(dose.medicine, dose.at) !== 'sound')
+  };
+}
+
+export const toSystemReminders = (doses: ScheduledDose[]) => groupDosesByTime(doses).map(toSystemReminder);
+
+export const showSystemReminders = (doses: ScheduledDose[]) => {
+  return Promise.all(toSystemReminders(doses).map(reminder => postToServiceWorker({ type: 'show', reminder })));
+};
+
+// Hands upcoming reminders to the service worker so they can fire while the app is closed; see supportsNotificationTriggers.
+// Doses taken since yesterday go along, so it drops snoozes tapped on their notifications.
+export const scheduleSystemReminders = (doses: ScheduledDose[], log: MedicineLog[]) => {
+  const since = toDateKey(addDays(new Date(), -1));
+  return postToServiceWorker({
+    type: 'schedule',
+    reminders: toSystemReminders(doses),
+    takenDoses: log
+      .filter(entry => isTakenEntry(entry) && entry.date >= since)
+      .map(entry => getReminderKey(entry.medicineId, entry.date, entry.time))
+  });
+};
+
+export const sendTestNotification = () => {
+  return postToServiceWorker({
+    type: 'show',
+    reminder: {
+      key: 'test',
+      doses: [],
+      title: 'PillReminder',
+      body: 'Notifications are working. Reminders will look like this.',
+      test: true
+    } satisfies SystemReminder
+  });
+};
+
+// Reads and clears a list the service worker keeps for the app. Each item is its own entry, under
+// key/id, and only the entries read are deleted, so none the worker adds meanwhile are lost.
+async function takeFromCache<T>(key: string, description: string): Promise<T[]> {
+  if (!('caches' in window)) return [];
+
+  try {
+    const cache = await caches.open(ACTION_CACHE);
+    const requests = (await cache.keys()).filter(request => new URL(request.url).pathname.includes(`/${key}/`));
+    const items: T[] = [];
+    for (const request of requests) {
+      const response = await cache.match(request);
+      await cache.delete(request);
+      if (response) items.push(await response.json());
+    }
+    return items;
+  } catch (error) {
+    console.error(`Error reading ${description}:`, error);
+    return [];
+  }
+}
+
+// The actions tapped on notifications since the app last looked
+export const takePendingActions = () => takeFromCache<NotificationAction>(ACTION_KEY, 'notification actions');
+
+// The reminders the service worker showed since the app last looked
+export const takeFiredReminders = () => takeFromCache<FiredReminder>(FIRED_KEY, 'fired reminders');
+
+export const onNotificationAction = (listener: () => void) => {
+  if (!('serviceWorker' in navigator)) return () => {};
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'notification-action') listener();
+  };
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+};
@@ -0,0 +1,58 @@
+import type { Medicine, TravelPolicy, TravelSettings } from '../types/medicine';
+import { createStoredValue, isSavedObject } from './storedValue';
+import { getDeviceOffsetMinutes, getDeviceTimeZone, getZoneOffsetMinutes } from './timeZones';
+
+const STORAGE_KEY = 'pillreminder-travel';
+const GRADUAL_STEP_MINUTES = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TRAVEL_POLICIES: { value: TravelPolicy; label: string; description: string }[] = [
+  { value: 'home', label: 'Keep Home Time', description: 'Doses stay at home-clock times, e.g. for contraceptives' },
+  { value: 'local', label: 'Switch to Local Time', description: 'Doses move to the same clock time where you are' },
+  { value: 'gradual', label: 'Shift Gradually', description: 'Doses move toward local time by up to an hour a day' }
+];
+
+const getDefaults = (): TravelSettings => ({ homeZone: getDeviceTimeZone(), defaultPolicy: 'local' });
+
+export const storedTravelSettings = createStoredValue<TravelSettings>(STORAGE_KEY, {
+  description: 'travel settings',
+  fallback: getDefaults,
+  parse: saved => isSavedObject(saved)
+    ? { ...getDefaults(), ...(saved as Partial<TravelSettings>) }
+    : getDefaults()
+});
+
+export const loadTravelSettings = storedTravelSettings.load;
+
+export const saveTravelSettings = storedTravelSettings.save;
+
+// Records when the device arrives in a new time zone; returns the new settings if anything changed
+export function syncTravelZone(now: Date = new Date()): TravelSettings | null {
+  const settings = loadTravelSettings();
+  const deviceZone = getDeviceTimeZone();
+  if (settings.currentZone === deviceZone) return null;
+
+  const updated = { ...settings, currentZone: deviceZone, since: now.toISOString() };
+  saveTravelSettings(updated);
+  return updated;
+}
+
+export const getTravelPolicy = (medicine: Medicine) => {
+  return medicine.travelPolicy ?? loadTravelSettings().defaultPolicy;
+};
+
+// Minutes to add to a dose placed on the device clock so it follows the travel policy
+export function getTravelShiftMinutes(medicine: Medicine, deviceClockTime: Date): number {
+  const policy = getTravelPolicy(medicine);
+  if (policy === 'local' || !medicine.timeZone) return 0;
+
+  const difference = getDeviceOffsetMinutes(deviceClockTime) - getZoneOffsetMinutes(medicine.timeZone, deviceClockTime);
+  if (difference === 0 || policy === 'home') return difference;
+
+  const { since } = loadTravelSettings();
+  const daysAway = since
+    ? Math.max(0, Math.floor((deviceClockTime.getTime() - new Date(since).getTime()) / DAY_MS))
+    : 0;
+  const remaining = Math.max(0, Math.abs(difference) - daysAway * GRADUAL_STEP_MINUTES);
+  return Math.sign(difference) * remaining;
+}
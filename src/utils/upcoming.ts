@@ -0,0 +1,60 @@
+import type { Medicine } from '../types/medicine';
+import type { ScheduledDose } from './doseSchedule';
+import { addDays, getDosesBetween, startOfDay, toDateKey } from './doseSchedule';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type UpcomingHorizon = '24h' | '48h' | '7d';
+
+export const UPCOMING_HORIZONS: { value: UpcomingHorizon; label: string; hours: number }[] = [
+  { value: '24h', label: '24 hours', hours: 24 },
+  { value: '48h', label: '48 hours', hours: 48 },
+  { value: '7d', label: '7 days', hours: 7 * 24 }
+];
+
+export interface UpcomingDay {
+  date: string;
+  label: string;
+  doses: ScheduledDose[];
+}
+
+// Every dose still to come within the horizon, across midnight and each medicine's own schedule
+export function getUpcomingDoses(medicines: Medicine[], now: Date, horizon: UpcomingHorizon): ScheduledDose[] {
+  const hours = UPCOMING_HORIZONS.find(option => option.value === horizon)!.hours;
+  const from = new Date(now.getTime() + 1);
+  const to = new Date(now.getTime() + hours * HOUR_MS);
+
+  return medicines
+    .flatMap(medicine => getDosesBetween(medicine, from, to))
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+const getDayLabel = (day: Date, now: Date) => {
+  const today = startOfDay(now);
+  if (toDateKey(day) === toDateKey(today)) return 'Today';
+  if (toDateKey(day) === toDateKey(addDays(today, 1))) return 'Tomorrow';
+  return day.toLocaleDateString([], { weekday: 'long', month: 'short', day: 'numeric' });
+};
+
+// Groups doses by the local day they happen on, keeping their order
+export function groupDosesByDay(doses: ScheduledDose[], now: Date): UpcomingDay[] {
+  const days: UpcomingDay[] = [];
+
+  for (const dose of doses) {
+    const date = toDateKey(dose.at);
+    let day = days[days.length - 1];
+    if (!day || day.date !== date) {
+      day = { date, label: getDayLabel(dose.at, now), doses: [] };
+      days.push(day);
+    }
+    day.doses.push(dose);
+  }
+
+  return days;
+}
+
+export const formatTimeUntil = (minutes: number) => {
+  if (minutes < 60) return `in ${minutes}m`;
+  if (minutes < 24 * 60) return `in ${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  return `in ${Math.floor(minutes / (24 * 60))}d ${Math.floor((minutes % (24 * 60)) / 60)}h`;
+};
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react-swc';
 import path from 'path';
@@ -5,6 +6,7 @@ import path from 'path';
 export default defineConfig({
   plugins: [react()],
   base: '/med4u/', // 👈 important for GitHub Pages
+  publicDir: 'src/public', // manifest and service worker
   resolve: {
     extensions: ['.js', '.jsx', '.ts', '.tsx', '.json'],
     alias: {
@@ -57,4 +59,8 @@ export default defineConfig({
     port: 3000,
     open: true,
   },
+  test: {
+    include: ['src/**/*.test.ts'],
+    setupFiles: ['src/test/setup.ts'],
+  },
 });